@@ -8,18 +8,18 @@ import { buildSync } from "esbuild";
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-function generateMinifiedLivePreviewBridge() {
+function generateMinifiedComponentSource(componentFile, exportName) {
   try {
-    console.log("Generating LivePreviewBridgeSource...");
+    console.log(`Generating ${exportName}...`);
 
-    const bridgeSrcPath = path.join(__dirname, "../src/LivePreviewBridge.tsx");
+    const componentSrcPath = path.join(__dirname, "../src", componentFile);
     const indexJsPath = path.join(__dirname, "../dist/index.js");
 
     // Bundle and minify using esbuild
     console.log("Bundling and minifying with esbuild...");
 
     const result = buildSync({
-      entryPoints: [bridgeSrcPath],
+      entryPoints: [componentSrcPath],
       bundle: true,
       minify: true,
       platform: "browser",
@@ -38,27 +38,29 @@ function generateMinifiedLivePreviewBridge() {
     // Update dist/index.js with embedded source
     let indexContent = fs.readFileSync(indexJsPath, "utf8");
     indexContent = indexContent.replace(
-      'exports.LivePreviewBridgeSource = "";',
-      `exports.LivePreviewBridgeSource = ${JSON.stringify(minifiedCode)};`,
+      `exports.${exportName} = "";`,
+      `exports.${exportName} = ${JSON.stringify(minifiedCode)};`,
     );
 
     fs.writeFileSync(indexJsPath, indexContent);
 
-    const originalSize = fs.statSync(bridgeSrcPath).size;
+    const originalSize = fs.statSync(componentSrcPath).size;
     const minifiedSize = Buffer.byteLength(minifiedCode, "utf8");
 
-    console.log(
-      `✅ LivePreviewBridgeSource updated successfully in ${indexJsPath}`,
-    );
+    console.log(`✅ ${exportName} updated successfully in ${indexJsPath}`);
     console.log(`📦 Original size: ${(originalSize / 1024).toFixed(2)} KB`);
     console.log(`📦 Minified size: ${(minifiedSize / 1024).toFixed(2)} KB`);
     console.log(
       `📦 Compression: ${((1 - minifiedSize / originalSize) * 100).toFixed(1)}%`,
     );
   } catch (error) {
-    console.error("❌ Failed to generate LivePreviewBridge.js:", error.message);
+    console.error(`❌ Failed to generate ${exportName}:`, error.message);
     process.exit(1);
   }
 }
 
-generateMinifiedLivePreviewBridge();
+generateMinifiedComponentSource(
+  "LivePreviewBridge.tsx",
+  "LivePreviewBridgeSource",
+);
+generateMinifiedComponentSource("TextMarker.tsx", "TextMarkerSource");
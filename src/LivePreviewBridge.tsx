@@ -1,4 +1,9 @@
 import React from "react";
+import {
+  DEFAULT_ATTRIBUTE_NAMES,
+  type MetadataAttributeNames,
+} from "./attributeNames";
+import { getMetadataTableEntry } from "./metadataTable";
 
 export interface ElementOverrides {
   children?: React.ReactNode | string;
@@ -11,6 +16,9 @@ export interface ElementOverrides {
 
 export interface ElementUpdate {
   editorId: string;
+  // Targets a single loop item (its data-editor-instance); when omitted the
+  // update applies to every instance of the element
+  instanceId?: string;
   filePath: string;
   overrides: ElementOverrides | null;
 }
@@ -27,6 +35,11 @@ export interface BridgeMessage {
 
 export interface LivePreviewBridgeProps {
   editorId: string;
+  editorInstance?: string | number;
+  // Source file of a compact element, whose file attributes were moved to
+  // the metadata lookup table
+  filePath?: string;
+  attributeNames?: Partial<MetadataAttributeNames>;
   children: React.ReactNode;
   debug?: boolean;
   messageType?: string;
@@ -102,40 +115,76 @@ function mergeOverrides(
   return merged;
 }
 
-// Get element file path from DOM
-function getElementFilePath(editorId: string): string | null {
+// Get element file path from the compact metadata table, or the DOM
+function getElementFilePath(
+  editorId: string,
+  attributeNames: Partial<MetadataAttributeNames> = {},
+): string | null {
+  const tableEntry = getMetadataTableEntry(editorId);
+  if (tableEntry) return tableEntry.file;
+
   if (typeof document === "undefined") return null;
 
-  const element = document.querySelector(`[data-editor-id="${editorId}"]`);
+  const {
+    editorId: editorIdName,
+    componentFile,
+    renderedBy,
+  } = {
+    ...DEFAULT_ATTRIBUTE_NAMES,
+    ...attributeNames,
+  };
+  const element = document.querySelector(`[${editorIdName}="${editorId}"]`);
   if (!element) return null;
 
   return (
-    element.getAttribute("data-component-file") ||
-    element.getAttribute("data-rendered-by") ||
+    element.getAttribute(componentFile) ||
+    element.getAttribute(renderedBy) ||
     null
   );
 }
 
+// Loop items are stored per instance so their overrides do not collide
+function getOverridesKey(
+  editorId: string,
+  editorInstance: string | number | undefined,
+): string {
+  return editorInstance === undefined
+    ? editorId
+    : `${editorId}:${editorInstance}`;
+}
+
 function LivePreviewBridge({
   editorId,
+  editorInstance,
+  filePath,
+  attributeNames,
   children,
   debug,
   messageType = "ELEMENT_UPDATE",
 }: LivePreviewBridgeProps) {
+  const overridesKey = getOverridesKey(editorId, editorInstance);
+  // attachBridge passes attribute names as an inline object, so they are
+  // read through a ref rather than re-subscribing on every render
+  const attributeNamesRef = React.useRef(attributeNames);
+  attributeNamesRef.current = attributeNames;
   const [overrides, setOverrides] = React.useState<ElementOverrides>(() =>
-    getStoredOverrides(editorId),
+    getStoredOverrides(overridesKey),
   );
 
   React.useEffect(() => {
     const handleMessage = (event: MessageEvent<BridgeMessage>) => {
       if (event.data?.type !== messageType) return;
 
-      const elementFilePath = getElementFilePath(editorId);
+      const elementFilePath =
+        filePath ?? getElementFilePath(editorId, attributeNamesRef.current);
       if (!elementFilePath) return;
 
       const relevantUpdates = event.data.updates.filter(
         (update) =>
-          update.editorId === editorId && update.filePath === elementFilePath,
+          update.editorId === editorId &&
+          update.filePath === elementFilePath &&
+          (update.instanceId === undefined ||
+            update.instanceId === String(editorInstance)),
       );
 
       const newOverrides = mergeOverrides(
@@ -145,19 +194,20 @@ function LivePreviewBridge({
       debug &&
         console.log("[LivePreviewBridge]", {
           editorId,
+          editorInstance,
           newOverrides,
           count: relevantUpdates.length,
         });
 
       setOverrides(newOverrides || {});
-      updateGlobalOverrides(editorId, newOverrides);
+      updateGlobalOverrides(overridesKey, newOverrides);
     };
 
     if (typeof window !== "undefined") {
       window.addEventListener("message", handleMessage);
       return () => window.removeEventListener("message", handleMessage);
     }
-  }, [editorId, debug, messageType]);
+  }, [editorId, editorInstance, filePath, overridesKey, debug, messageType]);
 
   // Validate single child
   if (React.Children.count(children) !== 1) return <>{children}</>;
@@ -166,7 +216,7 @@ function LivePreviewBridge({
 
   // No overrides - return original
   if (!overrides || Object.keys(overrides).length === 0) {
-    updateGlobalOverrides(editorId, null);
+    updateGlobalOverrides(overridesKey, null);
     return children;
   }
 
@@ -184,7 +234,7 @@ function LivePreviewBridge({
   const finalChildren = newChildren ?? childProps.children;
 
   // Update global and return
-  updateGlobalOverrides(editorId, {
+  updateGlobalOverrides(overridesKey, {
     ...props,
     children: finalChildren,
   });
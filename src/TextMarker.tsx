@@ -0,0 +1,58 @@
+import React from "react";
+
+// Text a component received from its parent, together with the metadata
+// attributes the plugin put on the marker (rendered-by file and editor ID)
+export interface TextMarkerEntry {
+  attributes: Record<string, string>;
+  text: string;
+}
+
+export type TextMarkerProps = Record<string, unknown> & {
+  children?: React.ReactNode;
+};
+
+declare global {
+  interface Window {
+    __editorTextMarkers?: Set<TextMarkerEntry>;
+  }
+}
+
+function getText(children: React.ReactNode): string {
+  return React.Children.toArray(children)
+    .filter((child) => typeof child === "string" || typeof child === "number")
+    .join("");
+}
+
+function getAttributes(props: Record<string, unknown>): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const [name, value] of Object.entries(props)) {
+    if (typeof value === "string") attributes[name] = value;
+  }
+  return attributes;
+}
+
+// Renders its children without adding DOM nodes. While mounted, the text
+// and its metadata are registered in window.__editorTextMarkers, so an
+// editor can find the text inside the nearest annotated element.
+function TextMarker({ children, ...props }: TextMarkerProps) {
+  const text = getText(children);
+  const attributesKey = JSON.stringify(getAttributes(props));
+
+  React.useEffect(() => {
+    if (typeof window === "undefined") return;
+
+    const entry: TextMarkerEntry = {
+      attributes: JSON.parse(attributesKey),
+      text,
+    };
+    window.__editorTextMarkers = window.__editorTextMarkers || new Set();
+    window.__editorTextMarkers.add(entry);
+    return () => {
+      window.__editorTextMarkers?.delete(entry);
+    };
+  }, [attributesKey, text]);
+
+  return <>{children}</>;
+}
+
+export default TextMarker;
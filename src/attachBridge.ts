@@ -2,6 +2,17 @@ import type { ConfigAPI } from "@babel/core";
 import type { NodePath } from "@babel/traverse";
 import { type PluginObj, types as t } from "@babel/core";
 import type { JSXAttribute, JSXElement } from "@babel/types";
+import {
+  createElementClassifier,
+  type ElementClassificationOptions,
+  type ElementClassifier,
+} from "./elementClassification";
+import {
+  DEFAULT_ATTRIBUTE_NAMES,
+  type MetadataAttributeNames,
+  resolveAttributeNames,
+} from "./attributeNames";
+import type { MetadataEncoding } from "./compactMetadata";
 
 export type BridgeOptions = {
   filename?: string;
@@ -9,6 +20,11 @@ export type BridgeOptions = {
   debugger?: boolean;
   messageType?: string;
   componentPath?: string;
+  hostElementProxies?: string[];
+  elementClassification?: ElementClassificationOptions;
+  attributePrefix?: string;
+  attributeNames?: Partial<MetadataAttributeNames>;
+  metadataEncoding?: MetadataEncoding;
 };
 
 export function attachBridge(
@@ -17,6 +33,11 @@ export function attachBridge(
 ): PluginObj {
   const filename = options.filename || "";
   const skipFiles = options.skipFiles || [];
+  const classifyElement = createElementClassifier(
+    options.elementClassification,
+    options.hostElementProxies,
+  );
+  const attributeNames = resolveAttributeNames(options);
 
   if (
     skipFiles.some(
@@ -42,10 +63,21 @@ export function attachBridge(
       },
       JSXElement(path: NodePath<JSXElement>) {
         const jsxElement = path.node;
-        const bridgeInfo = processJSXElementForBridge(jsxElement, path);
+        const bridgeInfo = processJSXElementForBridge(
+          jsxElement,
+          path,
+          classifyElement,
+          attributeNames,
+        );
 
         if (bridgeInfo.shouldWrap) {
-          wrapWithBridge(path, options, bridgeInfo.editorId);
+          wrapWithBridge(
+            path,
+            options,
+            bridgeInfo.editorId,
+            bridgeInfo.editorInstance,
+            attributeNames,
+          );
         }
       },
     },
@@ -55,20 +87,17 @@ export function attachBridge(
 function processJSXElementForBridge(
   jsxElement: JSXElement,
   path: NodePath<JSXElement>,
+  classifyElement: ElementClassifier,
+  attributeNames: MetadataAttributeNames,
 ): {
   shouldWrap: boolean;
   editorId: string | null;
+  editorInstance: t.Expression | null;
 } {
-  if (!t.isJSXIdentifier(jsxElement.openingElement.name)) {
-    return { shouldWrap: false, editorId: null };
-  }
-
-  const tagName = jsxElement.openingElement.name.name;
-  const firstChar = tagName.charCodeAt(0);
-  const isHTML = firstChar >= 97 && firstChar <= 122;
+  const isHTML = classifyElement(jsxElement.openingElement.name) === "host";
 
   if (!isHTML) {
-    return { shouldWrap: false, editorId: null };
+    return { shouldWrap: false, editorId: null, editorInstance: null };
   }
 
   const parent = path.parentPath;
@@ -79,14 +108,14 @@ function processJSXElementForBridge(
   );
 
   if (isAlreadyWrapped) {
-    return { shouldWrap: false, editorId: null };
+    return { shouldWrap: false, editorId: null, editorInstance: null };
   }
 
   const editorIdAttr = jsxElement.openingElement.attributes.find(
     (attr): attr is JSXAttribute =>
       t.isJSXAttribute(attr) &&
       t.isJSXIdentifier(attr.name) &&
-      attr.name.name === "data-editor-id",
+      attr.name.name === attributeNames.editorId,
   );
 
   const editorId =
@@ -94,13 +123,46 @@ function processJSXElementForBridge(
       ? editorIdAttr.value.value
       : null;
 
-  return { shouldWrap: !!editorId, editorId };
+  // Loop items carry an instance expression that tells the rendered
+  // instances apart
+  const instanceAttr = jsxElement.openingElement.attributes.find(
+    (attr): attr is JSXAttribute =>
+      t.isJSXAttribute(attr) &&
+      t.isJSXIdentifier(attr.name) &&
+      attr.name.name === attributeNames.editorInstance,
+  );
+
+  const editorInstance =
+    instanceAttr &&
+    t.isJSXExpressionContainer(instanceAttr.value) &&
+    t.isExpression(instanceAttr.value.expression)
+      ? instanceAttr.value.expression
+      : null;
+
+  return { shouldWrap: !!editorId, editorId, editorInstance };
+}
+
+// LivePreviewBridge looks elements up by the attributes it reads at runtime;
+// it only needs to be told about names that differ from the defaults.
+function getRuntimeAttributeNames(
+  attributeNames: MetadataAttributeNames,
+): t.ObjectExpression | null {
+  const runtimeKeys = ["editorId", "componentFile", "renderedBy"] as const;
+  const properties = runtimeKeys
+    .filter((key) => attributeNames[key] !== DEFAULT_ATTRIBUTE_NAMES[key])
+    .map((key) =>
+      t.objectProperty(t.identifier(key), t.stringLiteral(attributeNames[key])),
+    );
+
+  return properties.length > 0 ? t.objectExpression(properties) : null;
 }
 
 function wrapWithBridge(
   path: NodePath<JSXElement>,
   options: BridgeOptions,
   editorId: string | null,
+  editorInstance: t.Expression | null,
+  attributeNames: MetadataAttributeNames,
 ): void {
   if (!editorId) return;
 
@@ -117,6 +179,35 @@ function wrapWithBridge(
     ),
   ];
 
+  if (editorInstance) {
+    attributes.push(
+      t.jsxAttribute(
+        t.jsxIdentifier("editorInstance"),
+        t.jsxExpressionContainer(t.cloneNode(editorInstance, true)),
+      ),
+    );
+  }
+
+  // Compact elements no longer carry their file in the DOM
+  if (options.metadataEncoding === "compact" && options.filename) {
+    attributes.push(
+      t.jsxAttribute(
+        t.jsxIdentifier("filePath"),
+        t.stringLiteral(options.filename),
+      ),
+    );
+  }
+
+  const runtimeAttributeNames = getRuntimeAttributeNames(attributeNames);
+  if (runtimeAttributeNames) {
+    attributes.push(
+      t.jsxAttribute(
+        t.jsxIdentifier("attributeNames"),
+        t.jsxExpressionContainer(runtimeAttributeNames),
+      ),
+    );
+  }
+
   if (debug) {
     attributes.push(
       t.jsxAttribute(
@@ -1,23 +1,96 @@
 import type { ConfigAPI } from "@babel/core";
-import crypto from "node:crypto";
 import type { NodePath } from "@babel/traverse";
 import { type PluginObj, types as t } from "@babel/core";
 import type {
   ArrowFunctionExpression,
   FunctionExpression,
   CallExpression,
+  Expression,
   JSXAttribute,
   JSXElement,
   JSXExpressionContainer,
   JSXFragment,
   JSXOpeningElement,
+  JSXSpreadAttribute,
   JSXSpreadChild,
   JSXText,
+  Program,
   ReturnStatement,
 } from "@babel/types";
-import { attachLoopMetadata, type LoopHelpers } from "./loopMetadata";
+import {
+  attachLoopMetadata,
+  type ComponentFunctionPath,
+  type LoopHelpers,
+} from "./loopMetadata";
 import { attachVariableMetadata } from "./variableMetadata";
-import type { AttributeValue } from "./propertyAccess";
+import { getTextSourceValue } from "./textSourceMetadata";
+import { DEFAULT_SOURCE_PROPS } from "./propSourceMetadata";
+import {
+  attachClassNameMetadata,
+  DEFAULT_CLASS_NAME_FUNCTIONS,
+} from "./classNameMetadata";
+import {
+  createImportedBindingResolver,
+  type ImportedContentOptions,
+} from "./importedContent";
+import {
+  type AttributeValue,
+  createJSONAttributeValue,
+  getLocationDescriptor,
+  unwrapExpressionPath,
+} from "./propertyAccess";
+import {
+  createElementClassifier,
+  type ElementClassificationOptions,
+  type ElementClassifier,
+  getJSXElementName,
+  isReactFragmentElement,
+  isReactFragmentName,
+  getFactoryElementName,
+  type JSXElementName,
+} from "./elementClassification";
+import { type ElementFactoryKind, getElementFactoryKind } from "./jsxRuntime";
+import {
+  createFileIdContext,
+  createIdGenerator,
+  type EditorIdState,
+  type FileIdContext,
+  getFactoryStructuralAnchors,
+  getJSXStructuralAnchors,
+  getStructuralSegment,
+  type IdGenerator,
+  type IdGeneratorInfo,
+  type IdStrategy,
+  recordStructuralSegments,
+  resolveElementId,
+  setStructuralSegment,
+} from "./editorIds";
+import {
+  collectEditorIdManifest,
+  type EditorIdManifest,
+  type ManifestOptions,
+  type SourceLocationDescriptor,
+  writeEditorIdManifest,
+} from "./editorIdManifest";
+import {
+  type IdMigrationReport,
+  loadPreviousManifest,
+  migrateEditorIds,
+} from "./editorIdMigration";
+import {
+  createFileEditorIdRegistry,
+  type EditorIdRegistry,
+} from "./editorIdRegistry";
+import {
+  type MetadataAttributeNames,
+  resolveAttributeNames,
+} from "./attributeNames";
+import {
+  compactMetadata,
+  insertMetadataTable,
+  type MetadataEncoding,
+  type MetadataTableOutput,
+} from "./compactMetadata";
 
 type JSXChild =
   | JSXText
@@ -28,18 +101,41 @@ type JSXChild =
 
 type JSXElementLike = JSXElement | JSXText | JSXExpressionContainer;
 
-type IdGenerationContext = {
+type FragmentLike = JSXFragment | JSXElement;
+
+type IdGenerationContext = EditorIdState & {
+  componentNameInferred: boolean;
+  classifyElement: ElementClassifier;
+  isFragmentElement: (element: JSXElement) => boolean;
+  getElementFactoryKind: (
+    callee: CallExpression["callee"],
+  ) => ElementFactoryKind | null;
+  isFragmentName: (name: JSXElementName) => boolean;
+  elementFactoryCalls: ElementFactoryCallMode;
+  attributeNames: MetadataAttributeNames;
+  textWrapping: TextWrapping;
+  // Host elements enclosing the children being processed, innermost last
+  hostElements: (JSXOpeningElement | CallExpression)[];
+};
+
+type PluginSettings = {
   filename: string;
-  usedIds: Set<string>;
-  elementCounter: number;
-  elementPath: string[];
+  componentWrappers: string[];
+  classifyElement: ElementClassifier;
+  elementFactoryCalls: ElementFactoryCallMode;
+  idStrategy: IdStrategy;
+  idRegistry: EditorIdRegistry | null;
+  generateId: (info: IdGeneratorInfo) => string;
+  attributeNames: MetadataAttributeNames;
+  textWrapping: TextWrapping;
+  sourceProps: string[];
+  classNameFunctions: string[];
+  importedContent: ImportedContentOptions | null;
 };
 
 function getElementTagName(jsxElement: JSXElementLike): string {
   if (t.isJSXElement(jsxElement)) {
-    if (t.isJSXIdentifier(jsxElement.openingElement.name)) {
-      return jsxElement.openingElement.name.name;
-    }
+    return getJSXElementName(jsxElement.openingElement.name);
   }
   if (t.isJSXText(jsxElement) || t.isJSXExpressionContainer(jsxElement)) {
     return "span";
@@ -47,62 +143,66 @@ function getElementTagName(jsxElement: JSXElementLike): string {
   return "unknown";
 }
 
+const annotatedElements = new WeakSet<JSXOpeningElement>();
+
 function assignElementId(
   openingElement: JSXOpeningElement,
   context: IdGenerationContext,
 ): void {
+  annotatedElements.add(openingElement);
+
   const existingIdAttr = openingElement.attributes.find(
     (attr): attr is JSXAttribute =>
       t.isJSXAttribute(attr) &&
       t.isJSXIdentifier(attr.name) &&
-      attr.name.name === "data-editor-id",
+      attr.name.name === context.attributeNames.editorId,
   );
 
-  let finalId: string;
+  const existingId =
+    existingIdAttr && t.isStringLiteral(existingIdAttr.value)
+      ? existingIdAttr.value.value
+      : null;
 
-  if (existingIdAttr && t.isStringLiteral(existingIdAttr.value)) {
-    const existingId = existingIdAttr.value.value;
+  const finalId = resolveElementId(
+    existingId,
+    {
+      tagName: getJSXElementName(openingElement.name),
+      segment: getJSXSegment(openingElement),
+    },
+    context,
+  );
 
-    if (
-      existingId &&
-      existingId.trim() !== "" &&
-      !context.usedIds.has(existingId)
-    ) {
-      finalId = existingId;
-    } else {
-      finalId = generateNewId(context);
-    }
-  } else {
-    finalId = generateNewId(context);
-  }
+  setOrUpdateAttribute(
+    openingElement,
+    context.attributeNames.editorId,
+    finalId,
+  );
+}
 
-  context.usedIds.add(finalId);
+function getJSXSegment(openingElement: JSXOpeningElement): string {
+  return getStructuralSegment(
+    openingElement,
+    getJSXElementName(openingElement.name),
+    getJSXStructuralAnchors(openingElement),
+  );
+}
 
-  setOrUpdateAttribute(openingElement, "data-editor-id", finalId);
+// Structural IDs identify elements by their position among same-tag
+// siblings, so each child list is indexed before any of its children get IDs.
+function recordJSXSiblingSegments(children: JSXChild[]): void {
+  recordStructuralSegments(
+    children
+      .filter((child): child is JSXElement => t.isJSXElement(child))
+      .map((child) => ({
+        node: child.openingElement,
+        tagName: getJSXElementName(child.openingElement.name),
+        anchors: getJSXStructuralAnchors(child.openingElement),
+      })),
+  );
 }
 
 type NormalizedAttributeValue = t.JSXAttribute["value"];
 
-function generateNewId(context: IdGenerationContext): string {
-  let newId: string;
-
-  do {
-    const pathStr =
-      context.elementPath.length > 0
-        ? `${context.elementPath.join(".")}.element`
-        : "element";
-    const internalId = `${pathStr}[${context.elementCounter++}]@${context.filename}`;
-
-    newId = crypto
-      .createHash("md5")
-      .update(internalId)
-      .digest("hex")
-      .substring(0, 12);
-  } while (context.usedIds.has(newId));
-
-  return newId;
-}
-
 function setOrUpdateAttribute(
   openingElement: JSXOpeningElement,
   name: string,
@@ -149,8 +249,20 @@ function addComponentAttributes(
   componentName: string,
   context: IdGenerationContext,
 ): void {
-  setOrUpdateAttribute(openingElement, "data-component-file", filename);
-  setOrUpdateAttribute(openingElement, "data-component-name", componentName);
+  const { attributeNames } = context;
+  setOrUpdateAttribute(openingElement, attributeNames.componentFile, filename);
+  setOrUpdateAttribute(
+    openingElement,
+    attributeNames.componentName,
+    componentName,
+  );
+  if (context.componentNameInferred) {
+    setOrUpdateAttribute(
+      openingElement,
+      attributeNames.componentNameInferred,
+      "true",
+    );
+  }
   assignElementId(openingElement, context);
 }
 
@@ -159,33 +271,147 @@ function addRenderedByAttributes(
   filename: string,
   context: IdGenerationContext,
 ): void {
-  setOrUpdateAttribute(openingElement, "data-rendered-by", filename);
+  setOrUpdateAttribute(
+    openingElement,
+    context.attributeNames.renderedBy,
+    filename,
+  );
   assignElementId(openingElement, context);
 }
 
 function getComponentName(path: NodePath): string | null {
   if (
-    (path.isVariableDeclarator() || path.isFunctionDeclaration()) &&
+    (path.isVariableDeclarator() ||
+      path.isFunctionDeclaration() ||
+      path.isClassDeclaration() ||
+      path.isClassExpression()) &&
     path.node.id &&
     t.isIdentifier(path.node.id)
   ) {
     return path.node.id.name;
   }
 
+  // const Dashboard = class extends React.Component { ... }
+  if (
+    path.isClassExpression() &&
+    path.parentPath.isVariableDeclarator() &&
+    t.isIdentifier(path.parentPath.node.id)
+  ) {
+    return path.parentPath.node.id.name;
+  }
+
   return null;
 }
 
+// Derives a component name for anonymous default exports from the file path:
+// "pages/about-us.tsx" becomes "AboutUs" and "components/Hero/index.tsx"
+// falls back to the parent directory, "Hero".
+function inferComponentNameFromFilename(filename: string): string | null {
+  const segments = filename.split(/[\\/]/).filter(Boolean);
+
+  let baseName = (segments.pop() || "").replace(/\.[^.]+$/, "");
+  if (baseName === "index") {
+    baseName = segments.pop() || "";
+  }
+
+  const words = baseName.split(/[^A-Za-z0-9]+/).filter(Boolean);
+  if (words.length === 0) return null;
+
+  return words
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join("");
+}
+
 export type MetadataOptions = {
   filename?: string;
   skipFiles?: string[];
+  componentWrappers?: string[];
+  hostElementProxies?: string[];
+  elementClassification?: ElementClassificationOptions;
+  elementFactoryCalls?: ElementFactoryCallMode;
+  idStrategy?: IdStrategy;
+  idGenerator?: IdGenerator;
+  idRegistry?: EditorIdRegistry | string;
+  manifest?: ManifestOptions;
+  previousManifest?: EditorIdManifest | string;
+  onIdMigration?: (report: IdMigrationReport) => void;
+  attributePrefix?: string;
+  attributeNames?: Partial<MetadataAttributeNames>;
+  metadataEncoding?: MetadataEncoding;
+  metadataTable?: MetadataTableOutput;
+  textWrapping?: TextWrapping;
+  textMarkerPath?: string;
+  sourceProps?: string[];
+  classNameFunctions?: string[];
+  importedContent?: boolean | ImportedContentOptions;
 };
 
+// "convert" rewrites returned createElement/jsx calls into annotated JSX;
+// "annotate" adds the data-* props to the calls' props objects in place.
+export type ElementFactoryCallMode = "convert" | "annotate";
+
+// How text passed to a nested component records its authoring file:
+// "span" wraps it in a span, "contents" in a span styled display: contents,
+// "marker" in a TextMarker component that renders no DOM, and "none" leaves
+// it unwrapped and lists its location on the nearest host element.
+export type TextWrapping = "span" | "contents" | "marker" | "none";
+
+const TEXT_MARKER_NAME = "TextMarker";
+
+export const DEFAULT_COMPONENT_WRAPPERS = [
+  "memo",
+  "forwardRef",
+  "observer",
+  "styled",
+];
+
 export function attachMetadata(
   _api: ConfigAPI,
   options: MetadataOptions = {},
 ): PluginObj {
   const filename = options.filename || "";
   const skipFiles = options.skipFiles || [];
+  const componentWrappers =
+    options.componentWrappers || DEFAULT_COMPONENT_WRAPPERS;
+  const settings: PluginSettings = {
+    filename,
+    componentWrappers,
+    classifyElement: createElementClassifier(
+      options.elementClassification,
+      options.hostElementProxies,
+    ),
+    elementFactoryCalls: options.elementFactoryCalls || "convert",
+    idStrategy: options.idStrategy || "sequential",
+    idRegistry:
+      typeof options.idRegistry === "string"
+        ? createFileEditorIdRegistry(options.idRegistry)
+        : options.idRegistry || null,
+    generateId: createIdGenerator(options.idGenerator),
+    attributeNames: resolveAttributeNames(options),
+    textWrapping: options.textWrapping || "span",
+    sourceProps: options.sourceProps || DEFAULT_SOURCE_PROPS,
+    classNameFunctions:
+      options.classNameFunctions || DEFAULT_CLASS_NAME_FUNCTIONS,
+    importedContent:
+      options.importedContent === true ? {} : options.importedContent || null,
+  };
+  let fileIds = createFileIdContext(filename, null, settings.generateId);
+
+  if (
+    options.metadataEncoding === "compact" &&
+    options.metadataTable === "manifest" &&
+    !options.manifest
+  ) {
+    throw new Error(
+      'metadataTable: "manifest" requires the manifest option to be set',
+    );
+  }
+
+  if (settings.textWrapping === "marker" && !options.textMarkerPath) {
+    throw new Error(
+      'textWrapping: "marker" requires the textMarkerPath option to be set',
+    );
+  }
 
   if (
     skipFiles.some(
@@ -201,10 +427,65 @@ export function attachMetadata(
   return {
     name: "babel-plugin-jsx-metadata",
     visitor: {
+      Program: {
+        enter() {
+          fileIds = createFileIdContext(
+            filename,
+            settings.idRegistry,
+            settings.generateId,
+          );
+        },
+        exit(path) {
+          if (options.textMarkerPath) {
+            const markerPaths = findTextMarkers(path);
+            if (markerPaths.length > 0) {
+              addTextMarkerImport(path, options.textMarkerPath, markerPaths);
+            }
+          }
+
+          if (options.previousManifest && filename) {
+            const report = migrateEditorIds(
+              path,
+              fileIds,
+              loadPreviousManifest(options.previousManifest, filename),
+              settings.attributeNames,
+            );
+            options.onIdMigration?.(report);
+          }
+
+          fileIds.registry?.save();
+
+          if (options.manifest && filename) {
+            writeEditorIdManifest(
+              collectEditorIdManifest(
+                path,
+                filename,
+                fileIds.componentNames,
+                settings.attributeNames,
+              ),
+              filename,
+              options.manifest,
+            );
+          }
+
+          if (options.metadataEncoding === "compact") {
+            const table = compactMetadata(
+              path,
+              filename,
+              fileIds.componentNames,
+              settings.attributeNames,
+            );
+            if (options.metadataTable !== "manifest") {
+              insertMetadataTable(path, filename, table);
+            }
+          }
+        },
+      },
+
       FunctionDeclaration(path) {
         const componentName = getComponentName(path);
-        if (componentName) {
-          processComponent(path, componentName, filename);
+        if (componentName && !isComponentHelper(path, componentName)) {
+          processComponent(path, componentName, settings, fileIds);
         }
       },
 
@@ -212,10 +493,56 @@ export function attachMetadata(
         const componentName = getComponentName(path);
         if (
           componentName &&
-          (t.isArrowFunctionExpression(path.node.init) ||
-            t.isFunctionExpression(path.node.init))
+          !isComponentHelper(path, componentName) &&
+          getComponentFunctionPath(path, componentWrappers)
+        ) {
+          processComponent(path, componentName, settings, fileIds);
+        }
+      },
+
+      Class(path) {
+        const componentName = getComponentName(path);
+        if (
+          componentName &&
+          getComponentFunctionPath(path, componentWrappers)
+        ) {
+          processComponent(path, componentName, settings, fileIds);
+        }
+      },
+
+      ExportDefaultDeclaration(path) {
+        const declarationPath = path.get("declaration") as NodePath;
+        if (getComponentName(declarationPath)) return;
+
+        const functionLikePath = getComponentFunctionPath(
+          declarationPath,
+          componentWrappers,
+        );
+        if (!functionLikePath) return;
+
+        // export default memo(function Hero() { ... })
+        if (
+          functionLikePath.isFunctionExpression() &&
+          functionLikePath.node.id
         ) {
-          processComponent(path, componentName, filename);
+          processComponent(
+            declarationPath,
+            functionLikePath.node.id.name,
+            settings,
+            fileIds,
+          );
+          return;
+        }
+
+        const inferredName = inferComponentNameFromFilename(filename);
+        if (inferredName) {
+          processComponent(
+            declarationPath,
+            inferredName,
+            settings,
+            fileIds,
+            true,
+          );
         }
       },
     },
@@ -225,112 +552,320 @@ export function attachMetadata(
 function processComponent(
   path: NodePath,
   componentName: string,
-  filename: string,
+  settings: PluginSettings,
+  fileIds: FileIdContext,
+  componentNameInferred = false,
 ): void {
+  const { filename, componentWrappers } = settings;
   const context: IdGenerationContext = {
-    filename,
-    usedIds: new Set<string>(),
+    ...fileIds,
+    componentName,
     elementCounter: 0,
     elementPath: [],
+    anchorPath: [],
+    idStrategy: settings.idStrategy,
+    componentNameInferred,
+    classifyElement: settings.classifyElement,
+    isFragmentElement: () => false,
+    getElementFactoryKind: () => null,
+    isFragmentName: () => false,
+    elementFactoryCalls: settings.elementFactoryCalls,
+    attributeNames: settings.attributeNames,
+    textWrapping: settings.textWrapping,
+    hostElements: [],
   };
 
-  let functionLikePath: NodePath | null = null;
-  if (path.isFunctionDeclaration()) {
-    functionLikePath = path;
-  } else if (path.isVariableDeclarator()) {
-    const initPath = path.get("init");
-    if (
-      initPath &&
-      (initPath.isFunctionExpression() || initPath.isArrowFunctionExpression())
-    ) {
-      functionLikePath = initPath;
-    }
-  }
+  const functionLikePath = getComponentFunctionPath(path, componentWrappers);
+  if (!functionLikePath) return;
+  componentFunctions.add(functionLikePath.node);
 
-  if (path.isFunctionDeclaration()) {
-    path.traverse({
+  context.isFragmentElement = (element) =>
+    isReactFragmentElement(element, functionLikePath.scope);
+  context.getElementFactoryKind = (callee) =>
+    getElementFactoryKind(callee, functionLikePath.scope);
+  context.isFragmentName = (name) =>
+    isReactFragmentName(name, functionLikePath.scope);
+
+  const bodyPath = functionLikePath.get("body") as NodePath;
+
+  if (bodyPath.isBlockStatement()) {
+    functionLikePath.traverse({
       ReturnStatement(returnPath: NodePath<ReturnStatement>) {
         processComponentReturn(returnPath, filename, componentName, context);
       },
+      // Returns inside event handlers, hooks and .map callbacks do not
+      // produce the component's root elements.
+      Function(innerFnPath) {
+        innerFnPath.skip();
+      },
     });
+  } else if (bodyPath.isExpression()) {
+    (functionLikePath.node as ArrowFunctionExpression).body =
+      processReturnedExpression(
+        bodyPath.node,
+        filename,
+        componentName,
+        context,
+      );
+  }
+
+  const loopHelpers: LoopHelpers<IdGenerationContext> = {
+    processJSXChildren,
+    addRenderedByAttributes,
+    setOrUpdateAttribute,
+    isReactComponent: (element) => isReactComponent(element, context),
+    isFragmentElement: context.isFragmentElement,
+    attributeNames: settings.attributeNames,
+    sourceProps: settings.sourceProps,
+    classNameFunctions: settings.classNameFunctions,
+    resolveImportedBinding:
+      settings.importedContent && filename
+        ? createImportedBindingResolver(filename, settings.importedContent)
+        : null,
+  };
+
+  attachVariableMetadata({
+    functionLikePath,
+    filename,
+    context,
+    helpers: loopHelpers,
+  });
+
+  attachClassNameMetadata({
+    functionLikePath,
+    filename,
+    context,
+    helpers: loopHelpers,
+  });
+
+  attachLoopMetadata({
+    functionLikePath,
+    filename,
+    context,
+    helpers: loopHelpers,
+  });
+
+  processNestedCallbackElements(
+    functionLikePath,
+    filename,
+    componentWrappers,
+    context,
+  );
+
+  if (context.elementFactoryCalls === "annotate") {
+    processNestedFactoryCalls(
+      functionLikePath,
+      filename,
+      componentWrappers,
+      context,
+    );
   }
+}
 
-  if (path.isVariableDeclarator() && path.node.init) {
-    const func = path.node.init;
+// JSX created inside callbacks (render props, useMemo, dynamic .map calls)
+// is owned by the component but never one of its roots, so it gets the same
+// rendered-by treatment as any other child element.
+function processNestedCallbackElements(
+  functionLikePath: ComponentFunctionPath,
+  filename: string,
+  componentWrappers: string[],
+  context: IdGenerationContext,
+): void {
+  if (!filename) return;
 
-    if (t.isArrowFunctionExpression(func)) {
-      if (t.isJSXElement(func.body)) {
-        addEditorMetadata(func.body, filename, componentName, true, context);
-        processJSXChildren(func.body, filename, false, context); // Root element: no text wrapping
-      } else if (t.isJSXFragment(func.body)) {
-        addEditorMetadataToFragmentChildren(
-          func.body,
+  functionLikePath.traverse({
+    Function(innerFnPath) {
+      if (isComponentDefinition(innerFnPath, componentWrappers)) {
+        innerFnPath.skip();
+      }
+    },
+    JSXElement(elementPath: NodePath<JSXElement>) {
+      if (elementPath.getFunctionParent()?.node === functionLikePath.node) {
+        return;
+      }
+      if (elementPath.parentPath.isJSXElement()) return;
+      if (annotatedElements.has(elementPath.node.openingElement)) return;
+
+      if (context.isFragmentElement(elementPath.node)) {
+        processJSXChildren(elementPath.node, filename, false, context);
+      } else if (isReactComponent(elementPath.node, context)) {
+        processJSXChildren(elementPath.node, filename, true, context);
+      } else {
+        addRenderedByAttributes(
+          elementPath.node.openingElement,
           filename,
-          componentName,
           context,
         );
-        addRenderedByToFragmentChildren(func.body, filename, context);
-      } else if (t.isCallExpression(func.body)) {
-        const jsxElement = convertCreateElementToJSX(func.body);
-        if (jsxElement) {
-          addEditorMetadata(jsxElement, filename, componentName, true, context);
-          processJSXChildren(jsxElement, filename, false, context); // Root element: no text wrapping
-          func.body = jsxElement;
-        }
-      } else if (t.isBlockStatement(func.body)) {
-        path.traverse({
-          ReturnStatement(returnPath: NodePath<ReturnStatement>) {
-            processComponentReturn(
-              returnPath,
-              filename,
-              componentName,
-              context,
-            );
-          },
-        });
+        processJSXChildren(elementPath.node, filename, false, context);
       }
-    }
+    },
+  });
+}
 
-    if (t.isFunctionExpression(func)) {
-      path.traverse({
-        ReturnStatement(returnPath: NodePath<ReturnStatement>) {
-          processComponentReturn(returnPath, filename, componentName, context);
-        },
-      });
+// Nested functions the plugin visits as components in their own right.
+function isComponentDefinition(
+  fnPath: NodePath<t.Function>,
+  componentWrappers: string[],
+): boolean {
+  if (fnPath.isFunctionDeclaration()) {
+    return !!fnPath.node.id && !isComponentHelper(fnPath, fnPath.node.id.name);
+  }
+
+  const declaratorPath = fnPath.findParent((parent) =>
+    parent.isVariableDeclarator(),
+  );
+  const componentName = declaratorPath && getComponentName(declaratorPath);
+  if (!componentName || isComponentHelper(declaratorPath, componentName)) {
+    return false;
+  }
+
+  return (
+    getComponentFunctionPath(declaratorPath, componentWrappers)?.node ===
+    fnPath.node
+  );
+}
+
+const componentFunctions = new WeakSet<t.Node>();
+
+// Event handlers and render helpers declared in a component's body belong to
+// that component: their JSX is rendered by it. Only PascalCase names declare
+// nested components.
+function isComponentHelper(path: NodePath, name: string): boolean {
+  if (/^[A-Z]/.test(name)) return false;
+  return !!path.findParent((parent) => componentFunctions.has(parent.node));
+}
+
+function getComponentFunctionPath(
+  path: NodePath,
+  componentWrappers: string[],
+): ComponentFunctionPath | null {
+  if (path.isFunctionDeclaration()) {
+    return path;
+  }
+
+  if (path.isVariableDeclarator()) {
+    const initPath = path.get("init");
+    if (!initPath.node) return null;
+    return unwrapComponentWrappers(initPath as NodePath, componentWrappers);
+  }
+
+  if (path.isClassDeclaration() || path.isClassExpression()) {
+    return getClassRenderPath(path as NodePath<t.Class>);
+  }
+
+  if (path.isExpression()) {
+    return unwrapComponentWrappers(path, componentWrappers);
+  }
+
+  return null;
+}
+
+function getClassRenderPath(
+  classPath: NodePath<t.Class>,
+): ComponentFunctionPath | null {
+  if (!classPath.node.superClass) return null;
+
+  for (const memberPath of classPath.get("body").get("body")) {
+    if (memberPath.isClassMethod()) {
+      if (
+        memberPath.node.kind === "method" &&
+        !memberPath.node.static &&
+        !memberPath.node.computed &&
+        t.isIdentifier(memberPath.node.key, { name: "render" })
+      ) {
+        return memberPath;
+      }
+    } else if (memberPath.isClassProperty()) {
+      if (
+        !memberPath.node.static &&
+        !memberPath.node.computed &&
+        t.isIdentifier(memberPath.node.key, { name: "render" })
+      ) {
+        const valuePath = memberPath.get("value");
+        if (!valuePath.node) return null;
+        const expressionPath = unwrapExpressionPath(valuePath as NodePath);
+        if (
+          expressionPath &&
+          (expressionPath.isArrowFunctionExpression() ||
+            expressionPath.isFunctionExpression())
+        ) {
+          return expressionPath;
+        }
+      }
     }
   }
 
+  return null;
+}
+
+// Sees through wrapper calls such as memo(), forwardRef() and observer(),
+// including nested and curried forms like withStyles(styles)(memo(() => ...)).
+function unwrapComponentWrappers(
+  path: NodePath,
+  componentWrappers: string[],
+): ComponentFunctionPath | null {
+  const expressionPath = unwrapExpressionPath(path);
+  if (!expressionPath) return null;
+
   if (
-    functionLikePath &&
-    (functionLikePath.isFunctionDeclaration() ||
-      functionLikePath.isFunctionExpression() ||
-      functionLikePath.isArrowFunctionExpression())
+    expressionPath.isArrowFunctionExpression() ||
+    expressionPath.isFunctionExpression()
   ) {
-    const loopHelpers: LoopHelpers<IdGenerationContext> = {
-      processJSXChildren,
-      addRenderedByAttributes,
-      setOrUpdateAttribute,
-      isReactComponent,
-    };
+    return expressionPath;
+  }
 
-    attachVariableMetadata({
-      functionLikePath: functionLikePath as NodePath<
-        ArrowFunctionExpression | FunctionExpression | t.FunctionDeclaration
-      >,
-      filename,
-      context,
-      helpers: loopHelpers,
-    });
+  if (!expressionPath.isCallExpression()) return null;
+  if (!isComponentWrapperCall(expressionPath.node, componentWrappers)) {
+    return null;
+  }
 
-    attachLoopMetadata({
-      functionLikePath: functionLikePath as NodePath<
-        ArrowFunctionExpression | FunctionExpression | t.FunctionDeclaration
-      >,
-      filename,
-      context,
-      helpers: loopHelpers,
-    });
+  for (const argumentPath of expressionPath.get("arguments")) {
+    const functionPath = unwrapComponentWrappers(
+      argumentPath as NodePath,
+      componentWrappers,
+    );
+    if (functionPath) return functionPath;
+  }
+
+  return null;
+}
+
+function isComponentWrapperCall(
+  callExpression: CallExpression,
+  componentWrappers: string[],
+): boolean {
+  let callee = callExpression.callee;
+  while (t.isCallExpression(callee)) {
+    callee = callee.callee;
   }
+
+  const calleeName = getCalleeName(callee);
+  if (!calleeName) return false;
+
+  const shortName = calleeName.split(".").pop();
+  return componentWrappers.some(
+    (wrapper) => wrapper === calleeName || wrapper === shortName,
+  );
+}
+
+function getCalleeName(callee: CallExpression["callee"]): string | null {
+  if (t.isIdentifier(callee)) {
+    return callee.name;
+  }
+
+  if (
+    t.isMemberExpression(callee) &&
+    !callee.computed &&
+    t.isIdentifier(callee.property)
+  ) {
+    if (t.isExpression(callee.object)) {
+      const objectName = getCalleeName(callee.object);
+      if (objectName) return `${objectName}.${callee.property.name}`;
+    }
+    return callee.property.name;
+  }
+
+  return null;
 }
 
 function processComponentReturn(
@@ -340,26 +875,131 @@ function processComponentReturn(
   context: IdGenerationContext,
 ): void {
   const argument = returnPath.node.argument;
+  if (!argument) return;
+
+  returnPath.node.argument = processReturnedExpression(
+    argument,
+    filename,
+    componentName,
+    context,
+  );
+}
 
-  if (t.isJSXElement(argument)) {
-    addEditorMetadata(argument, filename, componentName, true, context);
-    processJSXChildren(argument, filename, false, context); // Root element: no text wrapping
-  } else if (t.isJSXFragment(argument)) {
+// Annotates every possible root of a returned value, descending through
+// conditionals, logical operators, sequences and parenthesised/type-cast
+// wrappers. Returns the expression to use in place of the original, which
+// differs only when a createElement call was converted to JSX.
+function processReturnedExpression(
+  expression: Expression,
+  filename: string,
+  componentName: string,
+  context: IdGenerationContext,
+): Expression {
+  if (
+    t.isJSXFragment(expression) ||
+    (t.isJSXElement(expression) && context.isFragmentElement(expression))
+  ) {
     addEditorMetadataToFragmentChildren(
-      argument,
+      expression,
+      filename,
+      componentName,
+      context,
+    );
+    addRenderedByToFragmentChildren(expression, filename, context);
+    return expression;
+  }
+
+  if (t.isJSXElement(expression)) {
+    addEditorMetadata(expression, filename, componentName, true, context);
+    processJSXChildren(expression, filename, false, context); // Root element: no text wrapping
+    return expression;
+  }
+
+  if (t.isConditionalExpression(expression)) {
+    expression.consequent = processReturnedExpression(
+      expression.consequent,
+      filename,
+      componentName,
+      context,
+    );
+    expression.alternate = processReturnedExpression(
+      expression.alternate,
       filename,
       componentName,
       context,
     );
-    addRenderedByToFragmentChildren(argument, filename, context);
-  } else if (t.isCallExpression(argument)) {
-    const jsxElement = convertCreateElementToJSX(argument);
+    return expression;
+  }
+
+  if (t.isLogicalExpression(expression)) {
+    expression.left = processReturnedExpression(
+      expression.left,
+      filename,
+      componentName,
+      context,
+    );
+    expression.right = processReturnedExpression(
+      expression.right,
+      filename,
+      componentName,
+      context,
+    );
+    return expression;
+  }
+
+  if (t.isSequenceExpression(expression)) {
+    const lastIndex = expression.expressions.length - 1;
+    expression.expressions[lastIndex] = processReturnedExpression(
+      expression.expressions[lastIndex],
+      filename,
+      componentName,
+      context,
+    );
+    return expression;
+  }
+
+  if (
+    t.isParenthesizedExpression(expression) ||
+    t.isTSAsExpression(expression) ||
+    t.isTSSatisfiesExpression(expression) ||
+    t.isTSNonNullExpression(expression) ||
+    t.isTSTypeAssertion(expression) ||
+    t.isTypeCastExpression(expression)
+  ) {
+    expression.expression = processReturnedExpression(
+      expression.expression,
+      filename,
+      componentName,
+      context,
+    );
+    return expression;
+  }
+
+  if (
+    t.isCallExpression(expression) &&
+    context.elementFactoryCalls === "annotate"
+  ) {
+    if (context.getElementFactoryKind(expression.callee)) {
+      annotateFactoryCall(expression, filename, componentName, false, context);
+    }
+    return expression;
+  }
+
+  if (t.isCallExpression(expression)) {
+    const jsxElement = convertCreateElementToJSX(expression, context);
     if (jsxElement) {
       addEditorMetadata(jsxElement, filename, componentName, true, context);
       processJSXChildren(jsxElement, filename, false, context); // Root element: no text wrapping
-      returnPath.node.argument = jsxElement;
+      return jsxElement;
+    }
+
+    // Props without a JSX form are kept by annotating the call in place
+    if (context.getElementFactoryKind(expression.callee)) {
+      annotateFactoryCall(expression, filename, componentName, false, context);
     }
   }
+
+  return expression;
 }
 
 function addEditorMetadata(
@@ -381,37 +1021,86 @@ function addEditorMetadata(
 }
 
 function addEditorMetadataToFragmentChildren(
-  jsxFragment: JSXFragment,
+  jsxFragment: FragmentLike,
   filename: string,
   componentName: string,
   context: IdGenerationContext,
 ): void {
   if (!filename || !jsxFragment.children) return;
 
+  recordJSXSiblingSegments(jsxFragment.children);
+
   jsxFragment.children.forEach((child) => {
-    if (t.isJSXElement(child)) {
+    if (isFragmentLike(child, context)) {
+      addEditorMetadataToFragmentChildren(
+        child as FragmentLike,
+        filename,
+        componentName,
+        context,
+      );
+    } else if (t.isJSXElement(child)) {
       addEditorMetadata(child, filename, componentName, true, context);
     }
   });
 }
 
+function isFragmentLike(node: JSXChild, context: IdGenerationContext): boolean {
+  return (
+    t.isJSXFragment(node) ||
+    (t.isJSXElement(node) && context.isFragmentElement(node))
+  );
+}
+
 function processJSXChildren(
-  jsxElement: JSXElement,
+  jsxElement: FragmentLike,
   filename: string,
   wrapExpressions = false,
   context: IdGenerationContext,
 ): void {
   if (!jsxElement.children) return;
 
-  const currentTagName = getElementTagName(jsxElement);
-  context.elementPath.push(currentTagName);
+  // Fragments render no element of their own, so they are left out of the
+  // element path used for IDs.
+  const isFragment = isFragmentLike(jsxElement, context);
+  if (!isFragment) {
+    context.elementPath.push(getElementTagName(jsxElement as JSXElement));
+    context.anchorPath.push(
+      getJSXSegment((jsxElement as JSXElement).openingElement),
+    );
+  }
+  const isHost =
+    !isFragment && !isReactComponent(jsxElement as JSXElement, context);
+  if (isHost) {
+    const { openingElement } = jsxElement as JSXElement;
+    context.hostElements.push(openingElement);
+    addTextSourceAttribute(
+      openingElement,
+      jsxElement.children,
+      filename,
+      context,
+    );
+  }
+
+  recordJSXSiblingSegments(jsxElement.children);
 
   const processedChildren: JSXChild[] = [];
   let hasChanges = false;
+  let wrappedTextCount = 0;
 
   jsxElement.children.forEach((child) => {
-    if (t.isJSXElement(child)) {
-      if (!isReactComponent(child)) {
+    if (t.isJSXElement(child) && annotatedElements.has(child.openingElement)) {
+      // Already annotated along with its subtree, e.g. as a loop item
+      processedChildren.push(child);
+    } else if (isFragmentLike(child, context)) {
+      processJSXChildren(
+        child as FragmentLike,
+        filename,
+        wrapExpressions,
+        context,
+      );
+      processedChildren.push(child);
+    } else if (t.isJSXElement(child)) {
+      if (!isReactComponent(child, context)) {
         addRenderedByAttributes(child.openingElement, filename, context);
         processJSXChildren(child, filename, false, context);
       } else {
@@ -421,36 +1110,28 @@ function processJSXChildren(
     } else if (t.isJSXText(child)) {
       const textContent = child.value.trim();
       if (textContent && wrapExpressions) {
-        const spanOpeningElement = t.jsxOpeningElement(
-          t.jsxIdentifier("span"),
-          [],
-        );
-        addRenderedByAttributes(spanOpeningElement, filename, context);
-
-        const wrappedTextElement = t.jsxElement(
-          spanOpeningElement,
-          t.jsxClosingElement(t.jsxIdentifier("span")),
-          [child],
+        processedChildren.push(
+          wrapTextChild(
+            child,
+            `#text:${wrappedTextCount++}`,
+            filename,
+            context,
+          ),
         );
-        processedChildren.push(wrappedTextElement);
         hasChanges = true;
       } else {
         processedChildren.push(child);
       }
     } else if (t.isJSXExpressionContainer(child) && wrapExpressions) {
-      if (t.isIdentifier(child.expression)) {
-        const spanOpeningElement = t.jsxOpeningElement(
-          t.jsxIdentifier("span"),
-          [],
+      if (isTextExpression(child.expression)) {
+        processedChildren.push(
+          wrapTextChild(
+            child,
+            `#text:${wrappedTextCount++}`,
+            filename,
+            context,
+          ),
         );
-        addRenderedByAttributes(spanOpeningElement, filename, context);
-
-        const wrappedExpressionElement = t.jsxElement(
-          spanOpeningElement,
-          t.jsxClosingElement(t.jsxIdentifier("span")),
-          [child],
-        );
-        processedChildren.push(wrappedExpressionElement);
         hasChanges = true;
       } else {
         processedChildren.push(child);
@@ -460,15 +1141,224 @@ function processJSXChildren(
     }
   });
 
-  context.elementPath.pop();
+  if (!isFragment) {
+    context.elementPath.pop();
+    context.anchorPath.pop();
+  }
+  if (isHost) {
+    context.hostElements.pop();
+  }
 
   if (hasChanges) {
     jsxElement.children = processedChildren;
   }
 }
 
+// Expressions passed as children that render as text: variables, property
+// reads, template literals, string concatenations and conditionals choosing
+// between them. JSX- and function-valued expressions are not text, nor are
+// passed-through children, which are usually elements.
+function isTextExpression(expression: t.Node): boolean {
+  if (isChildrenRead(expression)) return false;
+
+  if (
+    t.isIdentifier(expression) ||
+    t.isMemberExpression(expression) ||
+    t.isOptionalMemberExpression(expression) ||
+    t.isTemplateLiteral(expression)
+  ) {
+    return true;
+  }
+
+  if (t.isBinaryExpression(expression, { operator: "+" })) {
+    return isStringConcatenation(expression);
+  }
+
+  if (t.isConditionalExpression(expression)) {
+    // A branch rendering nothing would leave an empty wrapper behind
+    return [expression.consequent, expression.alternate].every(
+      (branch) => t.isStringLiteral(branch) || isTextExpression(branch),
+    );
+  }
+
+  return false;
+}
+
+// `children`, `props.children`, `this.props["children"]`
+function isChildrenRead(expression: t.Node): boolean {
+  if (t.isIdentifier(expression, { name: "children" })) return true;
+  if (
+    !t.isMemberExpression(expression) &&
+    !t.isOptionalMemberExpression(expression)
+  ) {
+    return false;
+  }
+  return expression.computed
+    ? t.isStringLiteral(expression.property, { value: "children" })
+    : t.isIdentifier(expression.property, { name: "children" });
+}
+
+// `count + " items"`: at least one operand of the + chain is a string
+function isStringConcatenation(expression: t.BinaryExpression): boolean {
+  return [expression.left, expression.right].some(
+    (operand) =>
+      t.isStringLiteral(operand) ||
+      t.isTemplateLiteral(operand) ||
+      (t.isBinaryExpression(operand, { operator: "+" }) &&
+        isStringConcatenation(operand)),
+  );
+}
+
+const textMarkers = new WeakSet<t.Node>();
+const textSources = new WeakMap<t.Node, SourceLocationDescriptor[]>();
+
+// Text passed to a nested component is rendered inside that component, so
+// it gets an element of its own recording the file that authored it.
+function wrapTextChild(
+  child: JSXText | JSXExpressionContainer,
+  segment: string,
+  filename: string,
+  context: IdGenerationContext,
+): JSXChild {
+  if (context.textWrapping === "none") {
+    recordTextSource(child, filename, context);
+    return child;
+  }
+
+  const tagName = context.textWrapping === "marker" ? TEXT_MARKER_NAME : "span";
+  const openingElement = t.jsxOpeningElement(t.jsxIdentifier(tagName), []);
+  if (context.textWrapping === "contents") {
+    openingElement.attributes.push(
+      t.jsxAttribute(
+        t.jsxIdentifier("style"),
+        t.jsxExpressionContainer(createDisplayContentsStyle()),
+      ),
+    );
+  } else if (context.textWrapping === "marker") {
+    textMarkers.add(openingElement);
+  }
+  setStructuralSegment(openingElement, segment);
+  addRenderedByAttributes(openingElement, filename, context);
+  addTextSourceAttribute(openingElement, [child], filename, context);
+
+  return t.jsxElement(
+    openingElement,
+    t.jsxClosingElement(t.jsxIdentifier(tagName)),
+    [child],
+  );
+}
+
+function addTextSourceAttribute(
+  openingElement: JSXOpeningElement,
+  children: t.Node[],
+  filename: string,
+  context: IdGenerationContext,
+): void {
+  const value = getTextSourceValue(children, filename);
+  if (value) {
+    setOrUpdateAttribute(
+      openingElement,
+      context.attributeNames.textSource,
+      createJSONAttributeValue(value),
+    );
+  }
+}
+
+function createDisplayContentsStyle(): t.ObjectExpression {
+  return t.objectExpression([
+    t.objectProperty(t.identifier("display"), t.stringLiteral("contents")),
+  ]);
+}
+
+// Lists the location of unwrapped text on the nearest host element
+// enclosing it in the same component.
+function recordTextSource(
+  child: t.Node,
+  filename: string,
+  context: IdGenerationContext,
+): void {
+  const host = context.hostElements[context.hostElements.length - 1];
+  if (!host || !child.loc) return;
+
+  const source = getLocationDescriptor(filename, child.loc);
+  const sources = textSources.get(host) ?? [];
+  if (sources.some(({ start }) => start === source.start)) return;
+  sources.push(source);
+  textSources.set(host, sources);
+
+  const value = JSON.stringify(sources);
+  if (t.isJSXOpeningElement(host)) {
+    setOrUpdateAttribute(
+      host,
+      context.attributeNames.textSources,
+      createJSONAttributeValue(value),
+    );
+  } else {
+    setOrUpdateFactoryProp(host, context.attributeNames.textSources, value);
+  }
+}
+
+function findTextMarkers(
+  programPath: NodePath<Program>,
+): NodePath<JSXOpeningElement | t.CallExpression>[] {
+  const markerPaths: NodePath<JSXOpeningElement | t.CallExpression>[] = [];
+  programPath.traverse({
+    "JSXOpeningElement|CallExpression"(path) {
+      if (textMarkers.has(path.node)) {
+        markerPaths.push(
+          path as NodePath<JSXOpeningElement | t.CallExpression>,
+        );
+      }
+    },
+  });
+  return markerPaths;
+}
+
+// Imports the marker component under a name that cannot shadow a binding
+// of the file, reusing an existing default import of the same module
+function addTextMarkerImport(
+  programPath: NodePath<Program>,
+  textMarkerPath: string,
+  markerPaths: NodePath<JSXOpeningElement | t.CallExpression>[],
+): void {
+  let localName: string | undefined;
+  for (const node of programPath.node.body) {
+    if (!t.isImportDeclaration(node) || node.source.value !== textMarkerPath) {
+      continue;
+    }
+    const specifier = node.specifiers.find((spec) =>
+      t.isImportDefaultSpecifier(spec),
+    );
+    if (specifier) localName = specifier.local.name;
+  }
+
+  if (!localName) {
+    const localId = programPath.scope.generateUidIdentifier(TEXT_MARKER_NAME);
+    localName = localId.name;
+    programPath.unshiftContainer(
+      "body",
+      t.importDeclaration(
+        [t.importDefaultSpecifier(localId)],
+        t.stringLiteral(textMarkerPath),
+      ),
+    );
+  }
+
+  for (const markerPath of markerPaths) {
+    const { node, parent } = markerPath;
+    if (t.isJSXOpeningElement(node)) {
+      node.name = t.jsxIdentifier(localName);
+      if (t.isJSXElement(parent) && parent.closingElement) {
+        parent.closingElement.name = t.jsxIdentifier(localName);
+      }
+    } else {
+      node.arguments[0] = t.identifier(localName);
+    }
+  }
+}
+
 function addRenderedByToFragmentChildren(
-  jsxFragment: JSXFragment,
+  jsxFragment: FragmentLike,
   filename: string,
   context: IdGenerationContext,
 ): void {
@@ -476,88 +1366,496 @@ function addRenderedByToFragmentChildren(
 
   jsxFragment.children.forEach((child) => {
     const elementChild = child as JSXChild | null;
-    if (elementChild && t.isJSXElement(elementChild)) {
+    if (!elementChild) return;
+    if (isFragmentLike(elementChild, context)) {
+      addRenderedByToFragmentChildren(
+        elementChild as FragmentLike,
+        filename,
+        context,
+      );
+    } else if (t.isJSXElement(elementChild)) {
       processJSXChildren(elementChild, filename, false, context);
     }
   });
 }
 
-function isReactComponent(jsxElement: JSXElement): boolean {
-  if (t.isJSXIdentifier(jsxElement.openingElement.name)) {
-    const tagName = jsxElement.openingElement.name.name;
-    return /^[A-Z]/.test(tagName);
-  }
-  return false;
+function isReactComponent(
+  jsxElement: JSXElement,
+  context: IdGenerationContext,
+): boolean {
+  return (
+    context.classifyElement(jsxElement.openingElement.name) === "component"
+  );
 }
 
 function convertCreateElementToJSX(
   callExpression: CallExpression,
+  context: IdGenerationContext,
 ): JSXElement | null {
-  if (
-    t.isMemberExpression(callExpression.callee) &&
-    t.isIdentifier(callExpression.callee.object, { name: "React" }) &&
-    t.isIdentifier(callExpression.callee.property, { name: "createElement" })
+  const factoryKind = context.getElementFactoryKind(callExpression.callee);
+  if (!factoryKind) return null;
+
+  const [elementType, props, ...restArgs] = callExpression.arguments;
+  if (!t.isStringLiteral(elementType)) return null;
+
+  const attributes: (JSXAttribute | JSXSpreadAttribute)[] = [];
+  let children: CallExpression["arguments"] = restArgs;
+
+  if (t.isObjectExpression(props)) {
+    for (const prop of props.properties) {
+      if (t.isSpreadElement(prop)) {
+        attributes.push(t.jsxSpreadAttribute(prop.argument));
+        continue;
+      }
+
+      // Methods and computed keys have no JSX attribute form
+      if (!t.isObjectProperty(prop) || prop.computed) return null;
+
+      let keyName: string;
+      if (t.isStringLiteral(prop.key)) {
+        keyName = prop.key.value;
+      } else if (t.isIdentifier(prop.key)) {
+        keyName = prop.key.name;
+      } else {
+        return null;
+      }
+
+      // jsx(type, { children }, key) passes children through props
+      if (factoryKind === "jsx" && keyName === "children") {
+        children = t.isArrayExpression(prop.value)
+          ? (prop.value.elements.filter(Boolean) as typeof children)
+          : [prop.value as Expression];
+        continue;
+      }
+
+      if (!isJSXAttributeName(keyName) || !t.isExpression(prop.value)) {
+        return null;
+      }
+
+      attributes.push(
+        t.jsxAttribute(
+          t.jsxIdentifier(keyName),
+          t.isStringLiteral(prop.value)
+            ? t.stringLiteral(prop.value.value)
+            : t.jsxExpressionContainer(prop.value),
+        ),
+      );
+    }
+  } else if (
+    props &&
+    t.isExpression(props) &&
+    !t.isNullLiteral(props) &&
+    !t.isIdentifier(props, { name: "undefined" })
   ) {
-    const [elementType, props, ...children] = callExpression.arguments;
+    // createElement("div", props) and compiled _objectSpread({}, props)
+    attributes.push(t.jsxSpreadAttribute(props));
+  }
 
-    if (t.isStringLiteral(elementType)) {
-      const attributes: JSXAttribute[] = [];
+  if (factoryKind === "jsx") {
+    const [key] = restArgs;
+    if (
+      key &&
+      t.isExpression(key) &&
+      !t.isIdentifier(key, { name: "undefined" })
+    ) {
+      attributes.push(
+        t.jsxAttribute(
+          t.jsxIdentifier("key"),
+          t.isStringLiteral(key) ? key : t.jsxExpressionContainer(key),
+        ),
+      );
+    }
+  }
 
-      if (t.isObjectExpression(props)) {
-        props.properties.forEach((prop) => {
-          if (t.isObjectProperty(prop)) {
-            let keyName: string | null = null;
+  // React does not support spread children in JSX
+  if (children.some((child) => t.isSpreadElement(child))) return null;
+
+  const jsxChildren: JSXChild[] = [];
+  children.forEach((child) => {
+    if (t.isStringLiteral(child)) {
+      jsxChildren.push(t.jsxText(child.value));
+    } else if (t.isCallExpression(child)) {
+      const nestedJSX = convertCreateElementToJSX(child, context);
+      if (nestedJSX) {
+        jsxChildren.push(nestedJSX);
+      } else {
+        jsxChildren.push(t.jsxExpressionContainer(child));
+      }
+    } else if (t.isExpression(child)) {
+      jsxChildren.push(t.jsxExpressionContainer(child));
+    }
+  });
 
-            if (t.isStringLiteral(prop.key)) {
-              keyName = prop.key.value;
-            } else if (t.isIdentifier(prop.key)) {
-              keyName = prop.key.name;
-            }
+  return t.jsxElement(
+    t.jsxOpeningElement(t.jsxIdentifier(elementType.value), attributes),
+    t.jsxClosingElement(t.jsxIdentifier(elementType.value)),
+    jsxChildren,
+  );
+}
 
-            if (keyName) {
-              if (t.isStringLiteral(prop.value)) {
-                attributes.push(
-                  t.jsxAttribute(
-                    t.jsxIdentifier(keyName),
-                    t.stringLiteral(prop.value.value),
-                  ),
-                );
-              } else if (t.isExpression(prop.value)) {
-                attributes.push(
-                  t.jsxAttribute(
-                    t.jsxIdentifier(keyName),
-                    t.jsxExpressionContainer(prop.value),
-                  ),
-                );
-              }
-            }
-          }
-        });
+// Prop names that can be written as a JSX attribute, e.g. "aria-label"
+function isJSXAttributeName(name: string): boolean {
+  return /^[A-Za-z_$][\w$-]*$/.test(name);
+}
+
+const annotatedFactoryCalls = new WeakSet<CallExpression>();
+
+// Factory calls created outside the component's returns (callbacks,
+// variables) are owned children, mirroring processNestedCallbackElements.
+function processNestedFactoryCalls(
+  functionLikePath: ComponentFunctionPath,
+  filename: string,
+  componentWrappers: string[],
+  context: IdGenerationContext,
+): void {
+  if (!filename) return;
+
+  functionLikePath.traverse({
+    Function(innerFnPath) {
+      if (isComponentDefinition(innerFnPath, componentWrappers)) {
+        innerFnPath.skip();
       }
+    },
+    CallExpression(callPath: NodePath<CallExpression>) {
+      if (annotatedFactoryCalls.has(callPath.node)) return;
+      if (!context.getElementFactoryKind(callPath.node.callee)) return;
 
-      const jsxChildren: JSXChild[] = [];
-      children.forEach((child) => {
-        if (t.isStringLiteral(child)) {
-          jsxChildren.push(t.jsxText(child.value));
-        } else if (t.isCallExpression(child)) {
-          const nestedJSX = convertCreateElementToJSX(child);
-          if (nestedJSX) {
-            jsxChildren.push(nestedJSX);
-          } else if (t.isExpression(child)) {
-            jsxChildren.push(t.jsxExpressionContainer(child));
-          }
-        } else if (t.isExpression(child)) {
-          jsxChildren.push(t.jsxExpressionContainer(child));
-        }
-      });
+      annotateFactoryCall(callPath.node, filename, null, false, context);
+    },
+  });
+}
+
+// Annotates a createElement/jsx call and the factory calls among its
+// children by writing data-* entries into its props object. A component
+// name marks the call as a component root.
+function annotateFactoryCall(
+  callExpression: CallExpression,
+  filename: string,
+  componentName: string | null,
+  wrapExpressions: boolean,
+  context: IdGenerationContext,
+): void {
+  if (!filename) return;
+
+  const factoryKind = context.getElementFactoryKind(callExpression.callee);
+  if (!factoryKind) return;
+
+  annotatedFactoryCalls.add(callExpression);
+
+  const elementType = callExpression.arguments[0];
+  const elementName = getFactoryElementName(elementType);
+
+  if (elementName && context.isFragmentName(elementName)) {
+    processFactoryCallChildren(
+      callExpression,
+      factoryKind,
+      filename,
+      componentName,
+      wrapExpressions,
+      context,
+    );
+    return;
+  }
 
-      return t.jsxElement(
-        t.jsxOpeningElement(t.jsxIdentifier(elementType.value), attributes),
-        t.jsxClosingElement(t.jsxIdentifier(elementType.value)),
-        jsxChildren,
+  // createElement(tag) with a lowercase variable is a dynamic type, not a
+  // host tag name.
+  const isHost =
+    !!elementName &&
+    !(t.isIdentifier(elementType) && t.react.isCompatTag(elementType.name)) &&
+    context.classifyElement(elementName) === "host";
+
+  if (componentName) {
+    const { attributeNames } = context;
+    setOrUpdateFactoryProp(
+      callExpression,
+      attributeNames.componentFile,
+      filename,
+    );
+    setOrUpdateFactoryProp(
+      callExpression,
+      attributeNames.componentName,
+      componentName,
+    );
+    if (context.componentNameInferred) {
+      setOrUpdateFactoryProp(
+        callExpression,
+        attributeNames.componentNameInferred,
+        "true",
       );
     }
+    assignFactoryCallId(callExpression, context);
+  } else if (isHost) {
+    setOrUpdateFactoryProp(
+      callExpression,
+      context.attributeNames.renderedBy,
+      filename,
+    );
+    assignFactoryCallId(callExpression, context);
+  }
+
+  // As with JSX, text is only wrapped when passed to a nested component
+  const wrapChildren = !componentName && !isHost;
+
+  context.elementPath.push(
+    elementName ? getJSXElementName(elementName) : "unknown",
+  );
+  context.anchorPath.push(getFactorySegment(callExpression));
+  if (isHost) context.hostElements.push(callExpression);
+  processFactoryCallChildren(
+    callExpression,
+    factoryKind,
+    filename,
+    null,
+    wrapChildren,
+    context,
+  );
+  if (isHost) context.hostElements.pop();
+  context.elementPath.pop();
+  context.anchorPath.pop();
+}
+
+function processFactoryCallChildren(
+  callExpression: CallExpression,
+  factoryKind: ElementFactoryKind,
+  filename: string,
+  componentName: string | null,
+  wrapExpressions: boolean,
+  context: IdGenerationContext,
+): void {
+  const children = getFactoryCallChildren(callExpression, factoryKind);
+  let wrappedTextCount = 0;
+
+  recordStructuralSegments(
+    children
+      .filter(
+        (child): child is CallExpression =>
+          t.isCallExpression(child) &&
+          !!context.getElementFactoryKind(child.callee),
+      )
+      .map((child) => ({
+        node: child,
+        tagName: getFactoryTagName(child),
+        anchors: getFactoryStructuralAnchors(child),
+      })),
+  );
+
+  children.forEach((child, index) => {
+    if (
+      t.isCallExpression(child) &&
+      context.getElementFactoryKind(child.callee)
+    ) {
+      annotateFactoryCall(
+        child,
+        filename,
+        componentName,
+        wrapExpressions,
+        context,
+      );
+      return;
+    }
+
+    const isWrappable =
+      (t.isStringLiteral(child) && child.value.trim() !== "") ||
+      isTextExpression(child);
+    if (!wrapExpressions || !isWrappable) return;
+
+    if (context.textWrapping === "none") {
+      recordTextSource(child, filename, context);
+      return;
+    }
+
+    const spanCall = createFactoryCall(
+      callExpression.callee as Expression,
+      factoryKind,
+      context.textWrapping === "marker"
+        ? t.identifier(TEXT_MARKER_NAME)
+        : t.stringLiteral("span"),
+      child as Expression,
+    );
+    if (context.textWrapping === "contents") {
+      (spanCall.arguments[1] as t.ObjectExpression).properties.push(
+        t.objectProperty(t.identifier("style"), createDisplayContentsStyle()),
+      );
+    } else if (context.textWrapping === "marker") {
+      textMarkers.add(spanCall);
+    }
+    setOrUpdateFactoryProp(
+      spanCall,
+      context.attributeNames.renderedBy,
+      filename,
+    );
+    setStructuralSegment(spanCall, `#text:${wrappedTextCount++}`);
+    assignFactoryCallId(spanCall, context);
+    annotatedFactoryCalls.add(spanCall);
+    children[index] = spanCall;
+  });
+
+  setFactoryCallChildren(callExpression, factoryKind, children);
+}
+
+function getFactoryCallChildren(
+  callExpression: CallExpression,
+  factoryKind: ElementFactoryKind,
+): t.Node[] {
+  if (factoryKind === "createElement") {
+    return callExpression.arguments.slice(2);
+  }
+
+  const childrenProp = findFactoryProp(callExpression, "children");
+  if (!childrenProp) return [];
+  if (t.isArrayExpression(childrenProp.value)) {
+    return childrenProp.value.elements.filter(
+      (element): element is NonNullable<typeof element> => !!element,
+    );
+  }
+  return [childrenProp.value];
+}
+
+function setFactoryCallChildren(
+  callExpression: CallExpression,
+  factoryKind: ElementFactoryKind,
+  children: t.Node[],
+): void {
+  if (factoryKind === "createElement") {
+    callExpression.arguments.splice(
+      2,
+      callExpression.arguments.length - 2,
+      ...(children as CallExpression["arguments"]),
+    );
+    return;
+  }
+
+  const childrenProp = findFactoryProp(callExpression, "children");
+  if (!childrenProp) return;
+  if (t.isArrayExpression(childrenProp.value)) {
+    childrenProp.value.elements = children as t.ArrayExpression["elements"];
+  } else if (children[0]) {
+    childrenProp.value = children[0] as Expression;
+  }
+}
+
+function createFactoryCall(
+  callee: Expression,
+  factoryKind: ElementFactoryKind,
+  elementType: Expression,
+  child: Expression,
+): CallExpression {
+  if (factoryKind === "createElement") {
+    return t.callExpression(t.cloneNode(callee, true), [
+      elementType,
+      t.objectExpression([]),
+      child,
+    ]);
+  }
+
+  // jsxs expects its children as an array
+  const calleeName = t.isMemberExpression(callee) ? callee.property : callee;
+  const childrenValue = /jsxs$/.test(
+    t.isIdentifier(calleeName) ? calleeName.name : "",
+  )
+    ? t.arrayExpression([child])
+    : child;
+
+  return t.callExpression(t.cloneNode(callee, true), [
+    elementType,
+    t.objectExpression([
+      t.objectProperty(t.identifier("children"), childrenValue),
+    ]),
+  ]);
+}
+
+function assignFactoryCallId(
+  callExpression: CallExpression,
+  context: IdGenerationContext,
+): void {
+  const existingIdProp = findFactoryProp(
+    callExpression,
+    context.attributeNames.editorId,
+  );
+  const existingId =
+    existingIdProp && t.isStringLiteral(existingIdProp.value)
+      ? existingIdProp.value.value
+      : null;
+
+  setOrUpdateFactoryProp(
+    callExpression,
+    context.attributeNames.editorId,
+    resolveElementId(
+      existingId,
+      {
+        tagName: getFactoryTagName(callExpression),
+        segment: getFactorySegment(callExpression),
+      },
+      context,
+    ),
+  );
+}
+
+function getFactorySegment(callExpression: CallExpression): string {
+  return getStructuralSegment(
+    callExpression,
+    getFactoryTagName(callExpression),
+    getFactoryStructuralAnchors(callExpression),
+  );
+}
+
+function getFactoryTagName(callExpression: CallExpression): string {
+  const elementName = getFactoryElementName(callExpression.arguments[0]);
+  return elementName ? getJSXElementName(elementName) : "unknown";
+}
+
+function findFactoryProp(
+  callExpression: CallExpression,
+  name: string,
+): t.ObjectProperty | null {
+  const props = callExpression.arguments[1];
+  if (!t.isObjectExpression(props)) return null;
+
+  for (const prop of props.properties) {
+    if (!t.isObjectProperty(prop) || prop.computed) continue;
+    if (
+      (t.isIdentifier(prop.key) && prop.key.name === name) ||
+      (t.isStringLiteral(prop.key) && prop.key.value === name)
+    ) {
+      return prop;
+    }
   }
 
   return null;
 }
+
+// Writes a prop into the call's props object, creating the object when the
+// call has none and spreading a non-literal props expression into a new one.
+function setOrUpdateFactoryProp(
+  callExpression: CallExpression,
+  name: string,
+  value: string,
+): void {
+  const existingProp = findFactoryProp(callExpression, name);
+  if (existingProp) {
+    existingProp.value = t.stringLiteral(value);
+    return;
+  }
+
+  const args = callExpression.arguments;
+  let props = args[1];
+
+  if (
+    !props ||
+    t.isNullLiteral(props) ||
+    t.isIdentifier(props, { name: "undefined" })
+  ) {
+    props = t.objectExpression([]);
+  } else if (!t.isObjectExpression(props)) {
+    props = t.objectExpression([t.spreadElement(props as Expression)]);
+  }
+
+  props.properties.push(
+    t.objectProperty(t.stringLiteral(name), t.stringLiteral(value)),
+  );
+
+  if (args.length === 0) {
+    args.push(t.identifier("undefined"));
+  }
+  args[1] = props;
+}
@@ -0,0 +1,68 @@
+// Names of the attributes the plugins read and write. They can be moved to
+// another prefix or renamed individually when the host page already uses
+// data-editor-* attributes of its own.
+export type MetadataAttributeNames = {
+  editorId: string;
+  editorInstance: string;
+  componentFile: string;
+  componentName: string;
+  componentNameInferred: string;
+  renderedBy: string;
+  childrenSource: string;
+  imgSource: string;
+  propSources: string;
+  textSource: string;
+  textSources: string;
+  classSources: string;
+};
+
+export type AttributeNameOptions = {
+  // Replaces the default "data-" prefix, e.g. "data-acme-" produces
+  // data-acme-editor-id
+  attributePrefix?: string;
+  // Full names for individual attributes; these take precedence over the
+  // prefix
+  attributeNames?: Partial<MetadataAttributeNames>;
+};
+
+const DEFAULT_ATTRIBUTE_PREFIX = "data-";
+
+const ATTRIBUTE_SUFFIXES: MetadataAttributeNames = {
+  editorId: "editor-id",
+  editorInstance: "editor-instance",
+  componentFile: "component-file",
+  componentName: "component-name",
+  componentNameInferred: "component-name-inferred",
+  renderedBy: "rendered-by",
+  childrenSource: "children-source",
+  imgSource: "img-source",
+  propSources: "prop-sources",
+  textSource: "text-source",
+  textSources: "text-sources",
+  classSources: "class-sources",
+};
+
+export const DEFAULT_ATTRIBUTE_NAMES = resolveAttributeNames();
+
+export function resolveAttributeNames(
+  options: AttributeNameOptions = {},
+): MetadataAttributeNames {
+  const prefix = options.attributePrefix ?? DEFAULT_ATTRIBUTE_PREFIX;
+  const names = {} as MetadataAttributeNames;
+
+  for (const key of Object.keys(ATTRIBUTE_SUFFIXES) as Array<
+    keyof MetadataAttributeNames
+  >) {
+    names[key] =
+      options.attributeNames?.[key] ?? `${prefix}${ATTRIBUTE_SUFFIXES[key]}`;
+  }
+
+  return names;
+}
+
+export function isMetadataAttributeName(
+  name: string,
+  attributeNames: MetadataAttributeNames,
+): boolean {
+  return Object.values(attributeNames).includes(name);
+}
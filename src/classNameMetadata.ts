@@ -0,0 +1,258 @@
+import { types as t } from "@babel/core";
+import type { NodePath } from "@babel/traverse";
+import type { CallExpression, Expression, JSXElement } from "@babel/types";
+import type { SourceLocationDescriptor } from "./editorIdManifest";
+import type { ComponentFunctionPath, LoopHelpers } from "./loopMetadata";
+import {
+  createJSONAttributeValue,
+  getLocationDescriptor,
+  unwrapExpressionPath,
+} from "./propertyAccess";
+
+// Functions whose arguments are all class values (strings, arrays, objects
+// keyed by class names)
+export const DEFAULT_CLASS_NAME_FUNCTIONS = [
+  "clsx",
+  "cn",
+  "cx",
+  "classNames",
+  "classnames",
+  "twMerge",
+  "twJoin",
+];
+
+// Functions that build a variant resolver: base classes, then an object of
+// variants whose values are classes
+const VARIANT_FUNCTIONS = ["cva"];
+
+// Set on classes that only apply under a condition: object keys, branches
+// of conditionals and right-hand sides of && and ||
+export type ClassSource = SourceLocationDescriptor & { conditional?: true };
+
+type ClassNameMetadataParams<Context> = {
+  functionLikePath: ComponentFunctionPath;
+  filename: string;
+  context: Context;
+  helpers: LoopHelpers<Context>;
+};
+
+type CollectState = {
+  filename: string;
+  classNameFunctions: string[];
+  sources: ClassSource[];
+  visited: Set<t.Node>;
+};
+
+export function attachClassNameMetadata<Context>(
+  params: ClassNameMetadataParams<Context>,
+): void {
+  const { functionLikePath, filename, helpers } = params;
+
+  if (!filename) return;
+
+  functionLikePath.traverse({
+    JSXElement(elementPath: NodePath<JSXElement>) {
+      annotateClassSources(elementPath, filename, helpers);
+    },
+  });
+}
+
+function annotateClassSources<Context>(
+  elementPath: NodePath<JSXElement>,
+  filename: string,
+  helpers: LoopHelpers<Context>,
+): void {
+  if (helpers.isReactComponent(elementPath.node)) return;
+
+  const attributePaths = elementPath
+    .get("openingElement")
+    .get("attributes") as NodePath[];
+  const classNamePath = attributePaths.find(
+    (attrPath) =>
+      attrPath.isJSXAttribute() &&
+      t.isJSXIdentifier(attrPath.node.name, { name: "className" }),
+  ) as NodePath<t.JSXAttribute> | undefined;
+  if (!classNamePath?.node.value) return;
+
+  const state: CollectState = {
+    filename,
+    classNameFunctions: helpers.classNameFunctions,
+    sources: [],
+    visited: new Set(),
+  };
+  collectClassSources(classNamePath.get("value") as NodePath, false, state);
+  if (state.sources.length === 0) return;
+
+  helpers.setOrUpdateAttribute(
+    elementPath.node.openingElement,
+    helpers.attributeNames.classSources,
+    createJSONAttributeValue(JSON.stringify(state.sources)),
+  );
+}
+
+function collectClassSources(
+  path: NodePath,
+  conditional: boolean,
+  state: CollectState,
+): void {
+  if (path.isJSXExpressionContainer()) {
+    collectClassSources(path.get("expression"), conditional, state);
+    return;
+  }
+
+  const valuePath = unwrapExpressionPath(path);
+  if (!valuePath?.node || state.visited.has(valuePath.node)) return;
+  state.visited.add(valuePath.node);
+
+  if (valuePath.isStringLiteral()) {
+    if (valuePath.node.value.trim() !== "") {
+      addSource(valuePath.node, conditional, state);
+    }
+  } else if (valuePath.isTemplateLiteral()) {
+    for (const quasi of valuePath.node.quasis) {
+      if ((quasi.value.cooked ?? "").trim() !== "") {
+        addSource(quasi, conditional, state);
+      }
+    }
+    for (const expressionPath of valuePath.get("expressions")) {
+      collectClassSources(expressionPath, conditional, state);
+    }
+  } else if (valuePath.isConditionalExpression()) {
+    collectClassSources(valuePath.get("consequent"), true, state);
+    collectClassSources(valuePath.get("alternate"), true, state);
+  } else if (valuePath.isLogicalExpression()) {
+    if (valuePath.node.operator !== "&&") {
+      collectClassSources(valuePath.get("left"), conditional, state);
+    }
+    collectClassSources(valuePath.get("right"), true, state);
+  } else if (valuePath.isArrayExpression()) {
+    for (const elementPath of valuePath.get("elements")) {
+      collectClassSources(elementPath as NodePath, conditional, state);
+    }
+  } else if (valuePath.isObjectExpression()) {
+    // { "bg-red-500": hasError, active: isActive }
+    for (const prop of valuePath.node.properties) {
+      if (!t.isObjectProperty(prop)) continue;
+      if (
+        t.isStringLiteral(prop.key) ||
+        (!prop.computed && t.isIdentifier(prop.key))
+      ) {
+        addSource(prop.key, true, state);
+      }
+    }
+  } else if (valuePath.isCallExpression()) {
+    collectCallSources(valuePath, conditional, state);
+  } else if (valuePath.isIdentifier()) {
+    const initPath = getConstantInitializerPath(valuePath);
+    if (initPath) collectClassSources(initPath, conditional, state);
+  }
+}
+
+function collectCallSources(
+  callPath: NodePath<CallExpression>,
+  conditional: boolean,
+  state: CollectState,
+): void {
+  const calleePath = callPath.get("callee");
+  if (!calleePath.isIdentifier()) return;
+
+  if (state.classNameFunctions.includes(calleePath.node.name)) {
+    for (const argumentPath of callPath.get("arguments")) {
+      collectClassSources(argumentPath, conditional, state);
+    }
+    return;
+  }
+
+  // button({ size }) where button = cva(...)
+  const initPath = getConstantInitializerPath(calleePath);
+  if (
+    initPath?.isCallExpression() &&
+    t.isIdentifier(initPath.node.callee) &&
+    VARIANT_FUNCTIONS.includes(initPath.node.callee.name)
+  ) {
+    collectVariantSources(initPath, conditional, state);
+  }
+}
+
+function collectVariantSources(
+  variantCallPath: NodePath<CallExpression>,
+  conditional: boolean,
+  state: CollectState,
+): void {
+  const [basePath, configPath] = variantCallPath.get("arguments");
+  if (basePath) collectClassSources(basePath, conditional, state);
+  if (!configPath?.isObjectExpression()) return;
+
+  const variantsPath = getObjectPropertyValuePath(configPath, "variants");
+  if (variantsPath?.isObjectExpression()) {
+    for (const variantPath of getObjectValuePaths(variantsPath)) {
+      if (!variantPath.isObjectExpression()) continue;
+      for (const optionPath of getObjectValuePaths(variantPath)) {
+        collectClassSources(optionPath, true, state);
+      }
+    }
+  }
+
+  const compoundPath = getObjectPropertyValuePath(
+    configPath,
+    "compoundVariants",
+  );
+  if (compoundPath?.isArrayExpression()) {
+    for (const entryPath of compoundPath.get("elements")) {
+      if (!entryPath.isObjectExpression()) continue;
+      for (const name of ["class", "className"]) {
+        const classPath = getObjectPropertyValuePath(entryPath, name);
+        if (classPath) collectClassSources(classPath, true, state);
+      }
+    }
+  }
+}
+
+function getObjectValuePaths(
+  objectPath: NodePath<t.ObjectExpression>,
+): NodePath[] {
+  return objectPath
+    .get("properties")
+    .filter((propPath) => propPath.isObjectProperty())
+    .map((propPath) => (propPath as NodePath<t.ObjectProperty>).get("value"));
+}
+
+function getObjectPropertyValuePath(
+  objectPath: NodePath<t.ObjectExpression>,
+  name: string,
+): NodePath | null {
+  for (const propPath of objectPath.get("properties")) {
+    if (!propPath.isObjectProperty() || propPath.node.computed) continue;
+    const key = propPath.node.key;
+    if (
+      (t.isIdentifier(key) && key.name === name) ||
+      (t.isStringLiteral(key) && key.value === name)
+    ) {
+      return propPath.get("value");
+    }
+  }
+  return null;
+}
+
+function getConstantInitializerPath(
+  identifierPath: NodePath<t.Identifier>,
+): NodePath | null {
+  const binding = identifierPath.scope.getBinding(identifierPath.node.name);
+  if (!binding || binding.constantViolations.length > 0) return null;
+  if (!binding.path.isVariableDeclarator()) return null;
+
+  const initPath = binding.path.get("init");
+  return initPath.node ? (initPath as NodePath<Expression>) : null;
+}
+
+function addSource(
+  node: t.Node,
+  conditional: boolean,
+  state: CollectState,
+): void {
+  if (!node.loc) return;
+
+  const source: ClassSource = getLocationDescriptor(state.filename, node.loc);
+  if (conditional) source.conditional = true;
+  state.sources.push(source);
+}
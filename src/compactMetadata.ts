@@ -0,0 +1,138 @@
+import { types as t } from "@babel/core";
+import type { NodePath } from "@babel/traverse";
+import type { Program, Statement } from "@babel/types";
+import type { MetadataAttributeNames } from "./attributeNames";
+import {
+  type AnnotatedNode,
+  collectManifestElements,
+  getMetadataValue,
+  removeMetadataAttributes,
+} from "./editorIdManifest";
+import {
+  METADATA_TABLE_GLOBAL,
+  type MetadataTable,
+  type MetadataTableEntry,
+} from "./metadataTable";
+
+// "attributes" writes every data-* attribute on each element; "compact"
+// keeps only the editor ID (and loop instance) and moves the rest into a
+// per-file lookup table.
+export type MetadataEncoding = "attributes" | "compact";
+
+// Where compact mode puts the lookup table: "module" merges it into
+// globalThis.__editorMetadata when the module loads, "manifest" leaves it to
+// the editor ID manifest.
+export type MetadataTableOutput = "module" | "manifest";
+
+// Moves metadata other than the editor ID and loop instance off every
+// annotated element in the file and returns it keyed by editor ID.
+export function compactMetadata(
+  programPath: NodePath<Program>,
+  filename: string,
+  componentNames: Map<string, string>,
+  attributeNames: MetadataAttributeNames,
+): MetadataTable {
+  const table: MetadataTable = {};
+
+  for (const { id, node, entry } of collectManifestElements(
+    programPath,
+    filename,
+    componentNames,
+    attributeNames,
+  )) {
+    const tableEntry: MetadataTableEntry = {
+      file: entry.file,
+      component: entry.component,
+    };
+    if (getMetadataValue(node, attributeNames.componentFile)) {
+      tableEntry.root = true;
+    }
+    if (getMetadataValue(node, attributeNames.componentNameInferred)) {
+      tableEntry.componentNameInferred = true;
+    }
+    if (entry.childrenSource) tableEntry.childrenSource = entry.childrenSource;
+    if (entry.imgSource) tableEntry.imgSource = entry.imgSource;
+    const propSources = getMetadataValue(node, attributeNames.propSources);
+    if (t.isStringLiteral(propSources)) {
+      tableEntry.propSources = JSON.parse(propSources.value);
+    }
+    const textSource = getMetadataValue(node, attributeNames.textSource);
+    if (t.isStringLiteral(textSource)) {
+      tableEntry.textSource = JSON.parse(textSource.value);
+    }
+    const textSources = getMetadataValue(node, attributeNames.textSources);
+    if (t.isStringLiteral(textSources)) {
+      tableEntry.textSources = JSON.parse(textSources.value);
+    }
+    const classSources = getMetadataValue(node, attributeNames.classSources);
+    if (t.isStringLiteral(classSources)) {
+      tableEntry.classSources = JSON.parse(classSources.value);
+    }
+
+    table[id] = tableEntry;
+  }
+
+  const movedNames = Object.entries(attributeNames)
+    .filter(([key]) => key !== "editorId" && key !== "editorInstance")
+    .map(([, name]) => name);
+  const removeMoved = (path: NodePath<AnnotatedNode>) =>
+    removeMetadataAttributes(path.node, movedNames);
+
+  programPath.traverse({
+    JSXElement: removeMoved,
+    CallExpression: removeMoved,
+  });
+
+  return table;
+}
+
+// globalThis.__editorMetadata = Object.assign(globalThis.__editorMetadata || {}, { [filename]: {...} });
+export function insertMetadataTable(
+  programPath: NodePath<Program>,
+  filename: string,
+  table: MetadataTable,
+): void {
+  if (Object.keys(table).length === 0) return;
+
+  const statement = t.expressionStatement(
+    t.assignmentExpression(
+      "=",
+      getTableGlobal(),
+      t.callExpression(
+        t.memberExpression(t.identifier("Object"), t.identifier("assign")),
+        [
+          t.logicalExpression("||", getTableGlobal(), t.objectExpression([])),
+          t.valueToNode({ [filename]: table }),
+        ],
+      ),
+    ),
+  );
+
+  const imports = programPath
+    .get("body")
+    .filter((statementPath) => statementPath.isImportDeclaration());
+  if (imports.length > 0) {
+    imports[imports.length - 1].insertAfter(statement);
+  } else {
+    programPath.unshiftContainer("body", statement);
+  }
+}
+
+export function isMetadataTableStatement(statement: Statement): boolean {
+  return (
+    t.isExpressionStatement(statement) &&
+    t.isAssignmentExpression(statement.expression) &&
+    t.isMemberExpression(statement.expression.left) &&
+    t.isIdentifier(statement.expression.left.object, { name: "globalThis" }) &&
+    t.isIdentifier(statement.expression.left.property, {
+      name: METADATA_TABLE_GLOBAL,
+    })
+  );
+}
+
+function getTableGlobal(): t.MemberExpression {
+  return t.memberExpression(
+    t.identifier("globalThis"),
+    t.identifier(METADATA_TABLE_GLOBAL),
+  );
+}
@@ -1,9 +1,17 @@
 import type { ConfigAPI } from "@babel/core";
 import { type PluginObj, types as t } from "@babel/core";
+import {
+  isMetadataAttributeName,
+  type MetadataAttributeNames,
+  resolveAttributeNames,
+} from "./attributeNames";
+import { isMetadataTableStatement } from "./compactMetadata";
 
 export type DetachOptions = {
   filename?: string;
   skipFiles?: string[];
+  attributePrefix?: string;
+  attributeNames?: Partial<MetadataAttributeNames>;
 };
 
 export function detachMetadata(
@@ -12,6 +20,7 @@ export function detachMetadata(
 ): PluginObj {
   const filename = options.filename || "";
   const skipFiles = options.skipFiles || [];
+  const attributeNames = resolveAttributeNames(options);
 
   if (
     skipFiles.some(
@@ -27,6 +36,12 @@ export function detachMetadata(
   return {
     name: "babel-plugin-jsx-detach-metadata",
     visitor: {
+      // Lookup table inserted by the compact metadata encoding
+      ExpressionStatement(path) {
+        if (isMetadataTableStatement(path.node)) {
+          path.remove();
+        }
+      },
       JSXOpeningElement(path) {
         const openingElement = path.node;
         const attrs = openingElement.attributes;
@@ -34,15 +49,7 @@ export function detachMetadata(
         for (let i = attrs.length - 1; i >= 0; i--) {
           const attr = attrs[i];
           if (t.isJSXAttribute(attr) && t.isJSXIdentifier(attr.name)) {
-            const attrName = attr.name.name;
-            if (
-              attrName === "data-editor-id" ||
-              attrName === "data-component-file" ||
-              attrName === "data-component-name" ||
-              attrName === "data-rendered-by" ||
-              attrName === "data-children-source" ||
-              attrName === "data-img-source"
-            ) {
+            if (isMetadataAttributeName(attr.name.name, attributeNames)) {
               attrs.splice(i, 1);
             }
           }
@@ -0,0 +1,365 @@
+import { mkdirSync, readFileSync, writeFileSync, existsSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { types as t } from "@babel/core";
+import type { NodePath } from "@babel/traverse";
+import type {
+  CallExpression,
+  JSXElement,
+  ObjectExpression,
+  Program,
+} from "@babel/types";
+import {
+  getFactoryElementName,
+  getJSXElementName,
+} from "./elementClassification";
+import {
+  isMetadataAttributeName,
+  type MetadataAttributeNames,
+} from "./attributeNames";
+
+// Same shape as the JSON stored in data-children-source/data-img-source.
+export type SourceLocationDescriptor = {
+  file: string;
+  start: string;
+  end: string;
+};
+
+// Loop items carry one candidate location per collection entry.
+export type ManifestSource =
+  SourceLocationDescriptor | (SourceLocationDescriptor | null)[];
+
+export type EditorIdManifestEntry = {
+  file: string;
+  component: string | null;
+  tag: string;
+  start: string | null;
+  end: string | null;
+  parentId: string | null;
+  // Literal text and string props, used to match elements between builds
+  text?: string;
+  props?: Record<string, string>;
+  childrenSource?: ManifestSource;
+  imgSource?: ManifestSource;
+};
+
+export type EditorIdManifest = Record<string, EditorIdManifestEntry>;
+
+export type ManifestOptions = {
+  // Writes <outputDir>/<filename>.editor-ids.json for each source file
+  outputDir?: string;
+  // Merges the entries of every source file into a single JSON file
+  outputFile?: string;
+};
+
+export type AnnotatedNode = JSXElement | CallExpression;
+
+export type ManifestElement = {
+  id: string;
+  node: AnnotatedNode;
+  entry: EditorIdManifestEntry;
+};
+
+export function collectEditorIdManifest(
+  programPath: NodePath<Program>,
+  filename: string,
+  componentNames: Map<string, string>,
+  attributeNames: MetadataAttributeNames,
+): EditorIdManifest {
+  const manifest: EditorIdManifest = {};
+
+  for (const { id, entry } of collectManifestElements(
+    programPath,
+    filename,
+    componentNames,
+    attributeNames,
+  )) {
+    manifest[id] = entry;
+  }
+
+  return manifest;
+}
+
+export function collectManifestElements(
+  programPath: NodePath<Program>,
+  filename: string,
+  componentNames: Map<string, string>,
+  attributeNames: MetadataAttributeNames,
+): ManifestElement[] {
+  const elements: ManifestElement[] = [];
+
+  const addEntry = (path: NodePath<AnnotatedNode>) => {
+    const id = getEditorId(path.node, attributeNames);
+    if (!id) return;
+
+    const location = getNodeLocation(path.node);
+    const parentPath = path.findParent(
+      (ancestor) =>
+        (ancestor.isJSXElement() || ancestor.isCallExpression()) &&
+        getEditorId(ancestor.node as AnnotatedNode, attributeNames) !== null,
+    );
+
+    const entry: EditorIdManifestEntry = {
+      file: filename,
+      component: componentNames.get(id) ?? null,
+      tag: getTagName(path.node),
+      start: location?.start ?? null,
+      end: location?.end ?? null,
+      parentId: parentPath
+        ? getEditorId(parentPath.node as AnnotatedNode, attributeNames)
+        : null,
+    };
+
+    const text = getTextContent(path.node);
+    if (text) entry.text = text;
+    const props = getStringProps(path.node, attributeNames);
+    if (Object.keys(props).length > 0) entry.props = props;
+
+    const childrenSource = getSource(path.node, attributeNames.childrenSource);
+    if (childrenSource) entry.childrenSource = childrenSource;
+    const imgSource = getSource(path.node, attributeNames.imgSource);
+    if (imgSource) entry.imgSource = imgSource;
+
+    elements.push({ id, node: path.node, entry });
+  };
+
+  programPath.traverse({
+    JSXElement: addEntry,
+    CallExpression: addEntry,
+  });
+
+  return elements;
+}
+
+export function setEditorId(
+  node: AnnotatedNode,
+  id: string,
+  attributeNames: MetadataAttributeNames,
+): void {
+  const value = t.stringLiteral(id);
+
+  if (t.isJSXElement(node)) {
+    for (const attr of node.openingElement.attributes) {
+      if (
+        t.isJSXAttribute(attr) &&
+        t.isJSXIdentifier(attr.name) &&
+        attr.name.name === attributeNames.editorId
+      ) {
+        attr.value = value;
+      }
+    }
+    return;
+  }
+
+  const props = node.arguments[1];
+  if (!t.isObjectExpression(props)) return;
+  const prop = findProp(props, attributeNames.editorId);
+  if (prop) prop.value = value;
+}
+
+export function removeMetadataAttributes(
+  node: AnnotatedNode,
+  names: string[],
+): void {
+  if (t.isJSXElement(node)) {
+    node.openingElement.attributes = node.openingElement.attributes.filter(
+      (attr) =>
+        !(
+          t.isJSXAttribute(attr) &&
+          t.isJSXIdentifier(attr.name) &&
+          names.includes(attr.name.name)
+        ),
+    );
+    return;
+  }
+
+  const props = node.arguments[1];
+  if (!t.isObjectExpression(props)) return;
+  props.properties = props.properties.filter((prop) => {
+    if (!t.isObjectProperty(prop) || prop.computed) return true;
+    const name = getPropName(prop);
+    return !name || !names.includes(name);
+  });
+}
+
+export function writeEditorIdManifest(
+  manifest: EditorIdManifest,
+  filename: string,
+  options: ManifestOptions,
+): void {
+  if (options.outputDir) {
+    writeJSON(join(options.outputDir, `${filename}.editor-ids.json`), manifest);
+  }
+
+  if (options.outputFile) {
+    const aggregated = readManifestFile(options.outputFile);
+    for (const [id, entry] of Object.entries(aggregated)) {
+      if (entry.file === filename) delete aggregated[id];
+    }
+    writeJSON(options.outputFile, { ...aggregated, ...manifest });
+  }
+}
+
+function readManifestFile(manifestPath: string): EditorIdManifest {
+  if (!existsSync(manifestPath)) return {};
+
+  const contents = readFileSync(manifestPath, "utf8");
+  return contents.trim() === "" ? {} : JSON.parse(contents);
+}
+
+function writeJSON(outputPath: string, manifest: EditorIdManifest): void {
+  const sorted = Object.fromEntries(
+    Object.entries(manifest).sort(([a], [b]) => a.localeCompare(b)),
+  );
+  mkdirSync(dirname(outputPath), { recursive: true });
+  writeFileSync(outputPath, `${JSON.stringify(sorted, null, 2)}\n`);
+}
+
+function getEditorId(
+  node: AnnotatedNode,
+  attributeNames: MetadataAttributeNames,
+): string | null {
+  const value = getMetadataValue(node, attributeNames.editorId);
+  return t.isStringLiteral(value) ? value.value : null;
+}
+
+export function getMetadataValue(
+  node: AnnotatedNode,
+  name: string,
+): t.Node | null {
+  if (t.isJSXElement(node)) {
+    for (const attr of node.openingElement.attributes) {
+      if (
+        t.isJSXAttribute(attr) &&
+        t.isJSXIdentifier(attr.name) &&
+        attr.name.name === name
+      ) {
+        return attr.value ?? null;
+      }
+    }
+    return null;
+  }
+
+  // createElement/jsx calls annotated in place carry metadata as props
+  const props = node.arguments[1];
+  if (!t.isObjectExpression(props)) return null;
+  return findProp(props, name)?.value ?? null;
+}
+
+function findProp(
+  props: ObjectExpression,
+  name: string,
+): t.ObjectProperty | null {
+  for (const prop of props.properties) {
+    if (!t.isObjectProperty(prop) || prop.computed) continue;
+    if (getPropName(prop) === name) return prop;
+  }
+  return null;
+}
+
+function getPropName(prop: t.ObjectProperty): string | null {
+  if (t.isIdentifier(prop.key)) return prop.key.name;
+  if (t.isStringLiteral(prop.key)) return prop.key.value;
+  return null;
+}
+
+function getTextContent(node: AnnotatedNode): string {
+  const parts = t.isJSXElement(node)
+    ? node.children.map((child) =>
+        t.isJSXText(child) ? child.value.trim() : "",
+      )
+    : node.arguments
+        .slice(2)
+        .map((child) => (t.isStringLiteral(child) ? child.value.trim() : ""));
+
+  return parts.filter(Boolean).join(" ");
+}
+
+// Literal string props other than the plugin's own metadata attributes
+function getStringProps(
+  node: AnnotatedNode,
+  attributeNames: MetadataAttributeNames,
+): Record<string, string> {
+  const props: Record<string, string> = {};
+
+  if (t.isJSXElement(node)) {
+    for (const attr of node.openingElement.attributes) {
+      if (!t.isJSXAttribute(attr) || !t.isStringLiteral(attr.value)) continue;
+      const name = t.isJSXIdentifier(attr.name)
+        ? attr.name.name
+        : `${attr.name.namespace.name}:${attr.name.name.name}`;
+      if (!isMetadataAttributeName(name, attributeNames))
+        props[name] = attr.value.value;
+    }
+    return props;
+  }
+
+  const propsObject = node.arguments[1];
+  if (!t.isObjectExpression(propsObject)) return props;
+  for (const prop of propsObject.properties) {
+    if (!t.isObjectProperty(prop) || !t.isStringLiteral(prop.value)) continue;
+    const name = getPropName(prop);
+    if (name && !isMetadataAttributeName(name, attributeNames))
+      props[name] = prop.value.value;
+  }
+  return props;
+}
+
+function getTagName(node: AnnotatedNode): string {
+  if (t.isJSXElement(node)) {
+    return getJSXElementName(node.openingElement.name);
+  }
+  const elementName = getFactoryElementName(node.arguments[0]);
+  return elementName ? getJSXElementName(elementName) : "unknown";
+}
+
+// Wrapper spans added by the plugin have no location of their own, so they
+// span the text they wrap.
+function getNodeLocation(
+  node: AnnotatedNode,
+): { start: string; end: string } | null {
+  const located = node.loc
+    ? [node]
+    : (t.isJSXElement(node) ? node.children : node.arguments).filter(
+        (child) => !!child.loc,
+      );
+
+  const first = located[0]?.loc;
+  const last = located[located.length - 1]?.loc;
+  if (!first || !last) return null;
+
+  return {
+    start: `${first.start.line}:${first.start.column + 1}`,
+    end: `${last.end.line}:${last.end.column + 1}`,
+  };
+}
+
+function getSource(node: AnnotatedNode, name: string): ManifestSource | null {
+  const value = getMetadataValue(node, name);
+
+  if (t.isStringLiteral(value)) {
+    return parseLocation(value);
+  }
+
+  // [loc0, loc1, ...][index] built for loop items
+  if (
+    t.isJSXExpressionContainer(value) &&
+    t.isMemberExpression(value.expression) &&
+    t.isArrayExpression(value.expression.object)
+  ) {
+    return value.expression.object.elements.map((element) =>
+      t.isStringLiteral(element) ? parseLocation(element) : null,
+    );
+  }
+
+  return null;
+}
+
+function parseLocation(
+  value: t.StringLiteral,
+): SourceLocationDescriptor | null {
+  try {
+    return JSON.parse(value.value);
+  } catch {
+    return null;
+  }
+}
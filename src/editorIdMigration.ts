@@ -0,0 +1,238 @@
+import { existsSync, readFileSync, statSync } from "node:fs";
+import { join } from "node:path";
+import { types as t } from "@babel/core";
+import type { NodePath } from "@babel/traverse";
+import type { Program } from "@babel/types";
+import {
+  collectManifestElements,
+  type EditorIdManifest,
+  type EditorIdManifestEntry,
+  setEditorId,
+} from "./editorIdManifest";
+import {
+  type FileIdContext,
+  generateReplacementId,
+  isIdAvailable,
+} from "./editorIds";
+import type { MetadataAttributeNames } from "./attributeNames";
+
+export type IdMigrationReport = {
+  file: string;
+  // Previous IDs still present, whether kept in the source or migrated
+  carriedOver: string[];
+  created: string[];
+  retired: string[];
+};
+
+// Elements need at least this much evidence beyond a matching tag and
+// component to inherit a previous ID.
+const MIN_MATCH_SCORE = 1;
+
+// Lines over which location proximity stops counting towards a match
+const MAX_LINE_DISTANCE = 10;
+
+// Accepts a manifest object, an aggregated manifest file, or a directory of
+// per-file manifests as written by the `manifest` option.
+export function loadPreviousManifest(
+  source: EditorIdManifest | string,
+  filename: string,
+): EditorIdManifest {
+  if (typeof source !== "string") return source;
+
+  const manifestPath =
+    existsSync(source) && statSync(source).isDirectory()
+      ? join(source, `${filename}.editor-ids.json`)
+      : source;
+  if (!existsSync(manifestPath)) return {};
+
+  const contents = readFileSync(manifestPath, "utf8");
+  return contents.trim() === "" ? {} : JSON.parse(contents);
+}
+
+// Replaces freshly generated IDs with the IDs of the elements they most
+// likely correspond to in the previous build, so IDs survive edits to files
+// that do not persist data-editor-id attributes.
+export function migrateEditorIds(
+  programPath: NodePath<Program>,
+  fileIds: FileIdContext,
+  previousManifest: EditorIdManifest,
+  attributeNames: MetadataAttributeNames,
+): IdMigrationReport {
+  const { filename } = fileIds;
+  const previousEntries = Object.entries(previousManifest).filter(
+    ([, entry]) => entry.file === filename,
+  );
+  const previousIds = new Set(previousEntries.map(([id]) => id));
+
+  const elements = collectManifestElements(
+    programPath,
+    filename,
+    fileIds.componentNames,
+    attributeNames,
+  );
+  const generated = elements.filter(({ id }) => fileIds.generatedIds.has(id));
+  const keptIds = new Set(
+    [...fileIds.usedIds].filter((id) => !fileIds.generatedIds.has(id)),
+  );
+  const available = previousEntries.filter(([id]) => {
+    if (keptIds.has(id)) return false;
+    const owner = fileIds.registry?.getOwner(id);
+    return owner === undefined || owner === filename;
+  });
+
+  const candidates: { element: number; previousId: string; score: number }[] =
+    [];
+  generated.forEach((element, index) => {
+    for (const [previousId, previousEntry] of available) {
+      const score = scoreMatch(
+        element.entry,
+        previousEntry,
+        element.id === previousId,
+      );
+      if (score >= MIN_MATCH_SCORE) {
+        candidates.push({ element: index, previousId, score });
+      }
+    }
+  });
+  candidates.sort((a, b) => b.score - a.score);
+
+  const matches = new Map<number, string>();
+  const matchedIds = new Set<string>();
+  for (const { element, previousId } of candidates) {
+    if (matches.has(element) || matchedIds.has(previousId)) continue;
+    matches.set(element, previousId);
+    matchedIds.add(previousId);
+  }
+
+  // Rebuild the reserved IDs: kept and migrated IDs first, then generated
+  // IDs that were not handed to another element.
+  fileIds.usedIds.clear();
+  for (const id of keptIds) fileIds.usedIds.add(id);
+  for (const id of matchedIds) fileIds.usedIds.add(id);
+
+  const finalIds = new Map<number, string>();
+  generated.forEach(({ id }, index) => {
+    const matchedId = matches.get(index);
+    if (matchedId) {
+      finalIds.set(index, matchedId);
+    } else if (!matchedIds.has(id)) {
+      finalIds.set(index, id);
+      fileIds.usedIds.add(id);
+    }
+  });
+  generated.forEach(({ id, entry }, index) => {
+    if (finalIds.has(index)) return;
+    const replacementId = generateReplacementId(
+      id,
+      {
+        componentName: entry.component ?? "",
+        tagName: entry.tag,
+        segment: entry.tag,
+      },
+      fileIds,
+    );
+    finalIds.set(index, replacementId);
+    fileIds.usedIds.add(replacementId);
+  });
+
+  fileIds.generatedIds.clear();
+  const renamedIds = new Map<string, string>();
+  generated.forEach((element, index) => {
+    const finalId = finalIds.get(index) as string;
+    if (finalId !== element.id) renamedIds.set(element.id, finalId);
+    setEditorId(element.node, finalId, attributeNames);
+    element.id = finalId;
+    if (element.entry.component) {
+      fileIds.componentNames.set(finalId, element.entry.component);
+    }
+    if (!matchedIds.has(finalId)) fileIds.generatedIds.add(finalId);
+  });
+
+  if (renamedIds.size > 0) updateBridgeEditorIds(programPath, renamedIds);
+
+  if (fileIds.registry) {
+    fileIds.registry.releaseFile(filename);
+    for (const id of fileIds.usedIds) fileIds.registry.claim(id, filename);
+  }
+
+  const currentIds = elements.map(({ id }) => id);
+  const currentIdSet = new Set(currentIds);
+
+  return {
+    file: filename,
+    carriedOver: currentIds.filter((id) => previousIds.has(id)),
+    created: currentIds.filter((id) => !previousIds.has(id)),
+    retired: [...previousIds].filter((id) => !currentIdSet.has(id)),
+  };
+}
+
+// attachBridge runs in the same pass and has already wrapped elements with
+// the IDs they had before migration. Generated IDs are unique within the
+// file, so each one names a single bridge.
+function updateBridgeEditorIds(
+  programPath: NodePath<Program>,
+  renamedIds: Map<string, string>,
+): void {
+  programPath.traverse({
+    JSXOpeningElement(path) {
+      if (!t.isJSXIdentifier(path.node.name, { name: "LivePreviewBridge" })) {
+        return;
+      }
+      for (const attr of path.node.attributes) {
+        if (
+          t.isJSXAttribute(attr) &&
+          t.isJSXIdentifier(attr.name, { name: "editorId" }) &&
+          t.isStringLiteral(attr.value)
+        ) {
+          const renamedId = renamedIds.get(attr.value.value);
+          if (renamedId) attr.value = t.stringLiteral(renamedId);
+        }
+      }
+    },
+  });
+}
+
+function scoreMatch(
+  current: EditorIdManifestEntry,
+  previous: EditorIdManifestEntry,
+  sameId: boolean,
+): number {
+  if (current.tag !== previous.tag) return 0;
+  if (current.component !== previous.component) return 0;
+
+  let score = sameId ? 1 : 0;
+  if (current.text && current.text === previous.text) score += 3;
+  score += 2 * getPropsSimilarity(current.props, previous.props);
+  score += 2 * getLocationProximity(current.start, previous.start);
+
+  return score;
+}
+
+function getPropsSimilarity(
+  current: Record<string, string> = {},
+  previous: Record<string, string> = {},
+): number {
+  const currentPairs = new Set(
+    Object.entries(current).map(([name, value]) => `${name}=${value}`),
+  );
+  const previousPairs = Object.entries(previous).map(
+    ([name, value]) => `${name}=${value}`,
+  );
+  const union = new Set([...currentPairs, ...previousPairs]);
+  if (union.size === 0) return 0;
+
+  const shared = previousPairs.filter((pair) => currentPairs.has(pair));
+  return shared.length / union.size;
+}
+
+function getLocationProximity(
+  current: string | null,
+  previous: string | null,
+): number {
+  if (!current || !previous) return 0;
+
+  const distance = Math.abs(
+    Number.parseInt(current, 10) - Number.parseInt(previous, 10),
+  );
+  return Math.max(0, 1 - distance / MAX_LINE_DISTANCE);
+}
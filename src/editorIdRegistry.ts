@@ -0,0 +1,76 @@
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { resolve } from "node:path";
+
+// Records which file owns each editor ID so that IDs stay unique across
+// every file of a build, not just within one file.
+export type EditorIdRegistry = {
+  getOwner(id: string): string | undefined;
+  claim(id: string, filename: string): void;
+  // Called before a file is (re-)transformed, so its previous IDs can be
+  // claimed again without being reported as collisions.
+  releaseFile(filename: string): void;
+  save(): void;
+};
+
+export function createEditorIdRegistry(): EditorIdRegistry {
+  return createRegistry(new Map(), () => {});
+}
+
+const fileRegistries = new Map<string, EditorIdRegistry>();
+
+// A registry persisted as a JSON object of { [editorId]: filename }. Plugin
+// instances that point at the same file share one registry.
+export function createFileEditorIdRegistry(
+  registryPath: string,
+): EditorIdRegistry {
+  const absolutePath = resolve(registryPath);
+  const cached = fileRegistries.get(absolutePath);
+  if (cached) return cached;
+
+  const owners = new Map(Object.entries(readRegistryFile(absolutePath)));
+  const registry = createRegistry(owners, () => {
+    const sortedOwners = Object.fromEntries(
+      [...owners].sort(([a], [b]) => a.localeCompare(b)),
+    );
+    writeFileSync(absolutePath, `${JSON.stringify(sortedOwners, null, 2)}\n`);
+  });
+
+  fileRegistries.set(absolutePath, registry);
+  return registry;
+}
+
+function createRegistry(
+  owners: Map<string, string>,
+  save: () => void,
+): EditorIdRegistry {
+  return {
+    getOwner(id) {
+      return owners.get(id);
+    },
+    claim(id, filename) {
+      owners.set(id, filename);
+    },
+    releaseFile(filename) {
+      for (const [id, owner] of owners) {
+        if (owner === filename) owners.delete(id);
+      }
+    },
+    save,
+  };
+}
+
+function readRegistryFile(registryPath: string): Record<string, string> {
+  if (!existsSync(registryPath)) return {};
+
+  const contents = readFileSync(registryPath, "utf8");
+  if (contents.trim() === "") return {};
+
+  const parsed: unknown = JSON.parse(contents);
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error(
+      `Editor ID registry ${registryPath} must contain a JSON object`,
+    );
+  }
+
+  return parsed as Record<string, string>;
+}
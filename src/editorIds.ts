@@ -0,0 +1,342 @@
+import crypto from "node:crypto";
+import { types as t } from "@babel/core";
+import type { CallExpression, JSXOpeningElement } from "@babel/types";
+import { extractPropertyAccess } from "./propertyAccess";
+import type { EditorIdRegistry } from "./editorIdRegistry";
+
+// "sequential" hashes each element's tag path plus its position in the
+// component, so inserting an element shifts the IDs of everything after it.
+// "structural" hashes structural anchors only (parent chain, tag, key and
+// stable props, or index among same-tag siblings), so unrelated edits keep
+// existing IDs intact.
+export type IdStrategy = "sequential" | "structural";
+
+// What a generator knows about the element it is naming. `key` is the
+// string the built-in hash generators digest; `label` is the readable path
+// (component, parent elements, tag) used by the "readable" generator.
+export type IdGeneratorInfo = {
+  filename: string;
+  componentName: string;
+  tagName: string;
+  elementPath: string[];
+  anchorPath: string[];
+  segment: string;
+  label: string;
+  key: string;
+  // Incremented each time a candidate collides with an ID already in use
+  attempt: number;
+};
+
+export type IdGenerator =
+  "md5" | "sha256" | "readable" | ((info: IdGeneratorInfo) => string);
+
+type GenerateId = (info: IdGeneratorInfo) => string;
+
+// Generators that keep producing taken IDs would otherwise loop forever.
+const MAX_ID_ATTEMPTS = 1000;
+
+export function createIdGenerator(generator: IdGenerator = "md5"): GenerateId {
+  if (typeof generator === "function") return generator;
+
+  switch (generator) {
+    case "sha256":
+      return (info) => hashId(info.key, "sha256");
+    case "readable":
+      return (info) => `${info.label}#${info.attempt}`;
+    default:
+      return (info) => hashId(info.key, "md5");
+  }
+}
+
+// IDs are reserved per file (shared by all components in it) and, when a
+// registry is configured, across the whole project.
+export type FileIdContext = {
+  filename: string;
+  usedIds: Set<string>;
+  registry: EditorIdRegistry | null;
+  generateId: GenerateId;
+  // Component that owns each ID, for the editor ID manifest
+  componentNames: Map<string, string>;
+  // IDs generated by the plugin rather than kept from the source, which may
+  // be replaced by IDs migrated from a previous manifest
+  generatedIds: Set<string>;
+};
+
+export function createFileIdContext(
+  filename: string,
+  registry: EditorIdRegistry | null,
+  generateId: GenerateId,
+): FileIdContext {
+  registry?.releaseFile(filename);
+  return {
+    filename,
+    usedIds: new Set<string>(),
+    registry,
+    generateId,
+    componentNames: new Map<string, string>(),
+    generatedIds: new Set<string>(),
+  };
+}
+
+export type EditorIdState = FileIdContext & {
+  componentName: string;
+  elementCounter: number;
+  elementPath: string[];
+  anchorPath: string[];
+  idStrategy: IdStrategy;
+};
+
+export type ElementIdentity = {
+  tagName: string;
+  segment: string;
+};
+
+// Props whose literal values identify an element among its siblings.
+const ANCHOR_PROPS = ["key", "id", "name"];
+
+const structuralSegments = new WeakMap<t.Node, string>();
+
+// Keeps an existing ID when it is usable and not taken, otherwise generates
+// a new one, and reserves the result.
+export function resolveElementId(
+  existingId: string | null,
+  identity: ElementIdentity,
+  state: EditorIdState,
+): string {
+  let finalId: string;
+
+  if (
+    existingId &&
+    existingId.trim() !== "" &&
+    isIdAvailable(existingId, state)
+  ) {
+    finalId = existingId;
+  } else {
+    finalId = generateNewId(identity, state);
+    state.generatedIds.add(finalId);
+  }
+
+  state.usedIds.add(finalId);
+  state.componentNames.set(finalId, state.componentName);
+  state.registry?.claim(finalId, state.filename);
+
+  return finalId;
+}
+
+export function isIdAvailable(id: string, state: FileIdContext): boolean {
+  if (state.usedIds.has(id)) return false;
+
+  const owner = state.registry?.getOwner(id);
+  return owner === undefined || owner === state.filename;
+}
+
+function generateNewId(
+  identity: ElementIdentity,
+  state: EditorIdState,
+): string {
+  const baseInfo = {
+    filename: state.filename,
+    componentName: state.componentName,
+    tagName: identity.tagName,
+    elementPath: [...state.elementPath],
+    anchorPath: [...state.anchorPath],
+    segment: identity.segment,
+  };
+
+  if (state.idStrategy === "structural") {
+    const anchorPath = [
+      state.componentName,
+      ...state.anchorPath,
+      identity.segment,
+    ].join("/");
+
+    return generateAvailableId(state, (attempt) => ({
+      ...baseInfo,
+      label: anchorPath,
+      key: `${anchorPath}${attempt > 0 ? `~${attempt}` : ""}@${state.filename}`,
+      attempt,
+    }));
+  }
+
+  const pathStr =
+    state.elementPath.length > 0
+      ? `${state.elementPath.join(".")}.element`
+      : "element";
+
+  return generateAvailableId(state, (attempt) => ({
+    ...baseInfo,
+    label: [state.componentName, ...state.elementPath, identity.tagName].join(
+      "/",
+    ),
+    key: `${pathStr}[${state.elementCounter++}]@${state.filename}`,
+    attempt,
+  }));
+}
+
+// Derives a fresh ID from one that has been handed to another element.
+export function generateReplacementId(
+  id: string,
+  identity: ElementIdentity & { componentName: string },
+  context: FileIdContext,
+): string {
+  return generateAvailableId(context, (attempt) => ({
+    filename: context.filename,
+    componentName: identity.componentName,
+    tagName: identity.tagName,
+    elementPath: [],
+    anchorPath: [],
+    segment: identity.segment,
+    label: id,
+    key: `${id}~${attempt + 1}@${context.filename}`,
+    attempt: attempt + 1,
+  }));
+}
+
+function generateAvailableId(
+  context: FileIdContext,
+  getInfo: (attempt: number) => IdGeneratorInfo,
+): string {
+  for (let attempt = 0; attempt < MAX_ID_ATTEMPTS; attempt++) {
+    const info = getInfo(attempt);
+    const id = context.generateId(info);
+
+    if (typeof id !== "string" || id.trim() === "") {
+      throw new Error(
+        `idGenerator returned an invalid editor ID for ${info.label} in ${context.filename}`,
+      );
+    }
+    if (isIdAvailable(id, context)) return id;
+  }
+
+  throw new Error(
+    `idGenerator produced ${MAX_ID_ATTEMPTS} colliding editor IDs in ${context.filename}`,
+  );
+}
+
+function hashId(internalId: string, algorithm: "md5" | "sha256"): string {
+  return crypto
+    .createHash(algorithm)
+    .update(internalId)
+    .digest("hex")
+    .substring(0, 12);
+}
+
+export type SiblingElement = {
+  node: t.Node;
+  tagName: string;
+  anchors: string[];
+};
+
+// Records each element's structural segment among its siblings. Anchored
+// elements are identified by their anchors alone; the rest by their index
+// among unanchored siblings with the same tag.
+export function recordStructuralSegments(siblings: SiblingElement[]): void {
+  const tagCounts = new Map<string, number>();
+
+  for (const { node, tagName, anchors } of siblings) {
+    if (anchors.length > 0) {
+      structuralSegments.set(node, formatAnchoredSegment(tagName, anchors));
+      continue;
+    }
+
+    const index = tagCounts.get(tagName) ?? 0;
+    tagCounts.set(tagName, index + 1);
+    structuralSegments.set(node, `${tagName}:${index}`);
+  }
+}
+
+export function setStructuralSegment(node: t.Node, segment: string): void {
+  structuralSegments.set(node, segment);
+}
+
+export function getStructuralSegment(
+  node: t.Node,
+  tagName: string,
+  anchors: string[],
+): string {
+  return (
+    structuralSegments.get(node) ??
+    (anchors.length > 0 ? formatAnchoredSegment(tagName, anchors) : tagName)
+  );
+}
+
+function formatAnchoredSegment(tagName: string, anchors: string[]): string {
+  return `${tagName}[${anchors.join(",")}]`;
+}
+
+export function getJSXStructuralAnchors(
+  openingElement: JSXOpeningElement,
+): string[] {
+  const anchors: string[] = [];
+
+  for (const attr of openingElement.attributes) {
+    if (!t.isJSXAttribute(attr) || !t.isJSXIdentifier(attr.name)) continue;
+    if (!ANCHOR_PROPS.includes(attr.name.name)) continue;
+
+    const value = describeAnchorValue(attr.value);
+    if (value !== null) {
+      anchors.push(`${attr.name.name}=${value}`);
+    }
+  }
+
+  return anchors;
+}
+
+export function getFactoryStructuralAnchors(
+  callExpression: CallExpression,
+): string[] {
+  const anchors: string[] = [];
+  const [, props, key] = callExpression.arguments;
+
+  if (t.isObjectExpression(props)) {
+    for (const prop of props.properties) {
+      if (!t.isObjectProperty(prop) || prop.computed) continue;
+
+      const name = t.isIdentifier(prop.key)
+        ? prop.key.name
+        : t.isStringLiteral(prop.key)
+          ? prop.key.value
+          : null;
+      if (!name || !ANCHOR_PROPS.includes(name)) continue;
+
+      const value = describeAnchorValue(prop.value);
+      if (value !== null) {
+        anchors.push(`${name}=${value}`);
+      }
+    }
+  }
+
+  // jsx(type, props, key)
+  const keyValue = describeAnchorValue(key);
+  if (keyValue !== null) {
+    anchors.push(`key=${keyValue}`);
+  }
+
+  return anchors;
+}
+
+function describeAnchorValue(value: t.Node | null | undefined): string | null {
+  if (t.isStringLiteral(value) || t.isNumericLiteral(value)) {
+    return String(value.value);
+  }
+
+  if (t.isJSXExpressionContainer(value)) {
+    return describeAnchorValue(value.expression);
+  }
+
+  if (t.isTemplateLiteral(value) && value.expressions.length === 0) {
+    return value.quasis.map((quasi) => quasi.value.cooked ?? "").join("");
+  }
+
+  if (t.isExpression(value)) {
+    const access = extractPropertyAccess(value);
+    if (!access) return null;
+
+    const segments = access.segments.map((segment) =>
+      segment.kind === "property" ? `.${segment.name}` : `[${segment.index}]`,
+    );
+    return `{${access.baseName}${segments.join("")}}`;
+  }
+
+  return null;
+}
@@ -0,0 +1,202 @@
+import { types as t } from "@babel/core";
+import type { NodePath, Scope } from "@babel/traverse";
+import type { JSXElement, JSXOpeningElement } from "@babel/types";
+
+export type JSXElementName = JSXOpeningElement["name"];
+
+export type ElementKind = "component" | "host";
+
+export type ElementClassifier = (name: JSXElementName) => ElementKind;
+
+export type ElementNamePattern = string | RegExp;
+
+export type ElementClassificationOptions = {
+  // Tags always treated as components, e.g. lowercase library components.
+  components?: ElementNamePattern[];
+  // Tags always treated as host elements, e.g. primitives forwarding to DOM.
+  hostElements?: ElementNamePattern[];
+  // Final say over every tag; return nothing to keep the computed kind.
+  classify?: (
+    tagName: string,
+    defaultKind: ElementKind,
+  ) => ElementKind | null | undefined;
+};
+
+// Objects whose lowercase members render DOM elements, e.g. <motion.div>.
+export const DEFAULT_HOST_ELEMENT_PROXIES = ["motion", "m", "animated"];
+
+export function getJSXElementName(name: JSXElementName): string {
+  if (t.isJSXIdentifier(name)) {
+    return name.name;
+  }
+
+  if (t.isJSXNamespacedName(name)) {
+    return `${name.namespace.name}:${name.name.name}`;
+  }
+
+  return `${getJSXElementName(name.object)}.${name.property.name}`;
+}
+
+// The DOM tag a host element renders: "img" for both <img> and <motion.img>.
+export function getHostTagName(name: JSXElementName): string {
+  if (t.isJSXIdentifier(name)) {
+    return name.name;
+  }
+
+  if (t.isJSXNamespacedName(name)) {
+    return name.name.name;
+  }
+
+  return name.property.name;
+}
+
+export function createElementClassifier(
+  options: ElementClassificationOptions = {},
+  hostElementProxies: string[] = DEFAULT_HOST_ELEMENT_PROXIES,
+): ElementClassifier {
+  const components = options.components || [];
+  const hostElements = options.hostElements || [];
+
+  return (name) => {
+    const tagName = getJSXElementName(name);
+
+    let kind: ElementKind;
+    if (matchesElementName(tagName, components)) {
+      kind = "component";
+    } else if (matchesElementName(tagName, hostElements)) {
+      kind = "host";
+    } else {
+      kind = getDefaultElementKind(name, hostElementProxies);
+    }
+
+    return options.classify?.(tagName, kind) || kind;
+  };
+}
+
+function matchesElementName(
+  tagName: string,
+  patterns: ElementNamePattern[],
+): boolean {
+  return patterns.some((pattern) => {
+    if (typeof pattern === "string") return pattern === tagName;
+    // Global and sticky patterns resume from the previous match
+    pattern.lastIndex = 0;
+    return pattern.test(tagName);
+  });
+}
+
+function getDefaultElementKind(
+  name: JSXElementName,
+  hostElementProxies: string[],
+): ElementKind {
+  if (t.isJSXIdentifier(name)) {
+    return t.react.isCompatTag(name.name) ? "host" : "component";
+  }
+
+  if (t.isJSXNamespacedName(name)) {
+    return "host";
+  }
+
+  const rootName = getJSXMemberRootName(name);
+  if (
+    hostElementProxies.includes(rootName) &&
+    t.react.isCompatTag(name.property.name)
+  ) {
+    return "host";
+  }
+
+  return "component";
+}
+
+function getJSXMemberRootName(name: t.JSXMemberExpression): string {
+  if (t.isJSXMemberExpression(name.object)) {
+    return getJSXMemberRootName(name.object);
+  }
+  return name.object.name;
+}
+
+// Matches <Fragment>, <React.Fragment> and aliased imports such as
+// `import { Fragment as F } from "react"`.
+export function isReactFragmentElement(
+  element: JSXElement,
+  scope: Scope,
+): boolean {
+  return isReactFragmentName(element.openingElement.name, scope);
+}
+
+export function isReactFragmentName(
+  name: JSXElementName,
+  scope: Scope,
+): boolean {
+  if (t.isJSXIdentifier(name)) {
+    const binding = scope.getBinding(name.name);
+    return (
+      !!binding &&
+      binding.path.isImportSpecifier() &&
+      isReactImport(binding.path.parentPath) &&
+      t.isIdentifier(binding.path.node.imported, { name: "Fragment" })
+    );
+  }
+
+  if (
+    t.isJSXMemberExpression(name) &&
+    t.isJSXIdentifier(name.object) &&
+    name.property.name === "Fragment"
+  ) {
+    const binding = scope.getBinding(name.object.name);
+    if (!binding) {
+      return name.object.name === "React";
+    }
+    return (
+      (binding.path.isImportDefaultSpecifier() ||
+        binding.path.isImportNamespaceSpecifier()) &&
+      isReactImport(binding.path.parentPath)
+    );
+  }
+
+  return false;
+}
+
+// Builds the JSX tag name equivalent to an element factory's type argument:
+// "div" for createElement("div"), <UI.Button> for jsx(UI.Button, ...).
+export function getFactoryElementName(
+  elementType: t.Node | undefined,
+): JSXElementName | null {
+  if (t.isStringLiteral(elementType)) {
+    return t.jsxIdentifier(elementType.value);
+  }
+
+  if (t.isIdentifier(elementType)) {
+    return t.jsxIdentifier(elementType.name);
+  }
+
+  if (
+    t.isMemberExpression(elementType) &&
+    !elementType.computed &&
+    t.isIdentifier(elementType.property)
+  ) {
+    const objectName = getFactoryElementName(elementType.object);
+    if (!objectName || t.isJSXNamespacedName(objectName)) return null;
+    return t.jsxMemberExpression(
+      objectName,
+      t.jsxIdentifier(elementType.property.name),
+    );
+  }
+
+  return null;
+}
+
+// The automatic runtime imports Fragment from react/jsx-runtime.
+const REACT_FRAGMENT_SOURCES = [
+  "react",
+  "react/jsx-runtime",
+  "react/jsx-dev-runtime",
+];
+
+function isReactImport(path: NodePath | null): boolean {
+  return (
+    !!path &&
+    path.isImportDeclaration() &&
+    REACT_FRAGMENT_SOURCES.includes(path.node.source.value)
+  );
+}
@@ -0,0 +1,293 @@
+import { existsSync, readFileSync, statSync } from "node:fs";
+import {
+  dirname,
+  extname,
+  isAbsolute,
+  join,
+  relative,
+  resolve,
+} from "node:path";
+import { parseSync, traverse, types as t } from "@babel/core";
+import type { Binding, NodePath } from "@babel/traverse";
+import type { Expression, Program } from "@babel/types";
+import {
+  type PropertyAccessSegment,
+  unwrapExpressionPath,
+} from "./propertyAccess";
+
+export type ImportedContentOptions = {
+  // Directory that `filename` and the reported file paths are relative to
+  // (default: process.cwd())
+  root?: string;
+  // Tried in order when an import has no extension, also for index files
+  extensions?: string[];
+  // Resolves imports that are not relative paths, e.g. "@/content/faqs".
+  // Returns an absolute path or one relative to root, or null to skip.
+  resolve?: (source: string, importer: string) => string | null;
+};
+
+// A static value found in another module, with the property path still to
+// follow within it
+export type ImportedValue = {
+  filename: string;
+  valuePath: NodePath<Expression>;
+  segments: PropertyAccessSegment[];
+};
+
+export type ImportedBindingResolver = (
+  binding: Binding,
+  segments: PropertyAccessSegment[],
+) => ImportedValue | null;
+
+type ParsedModule = {
+  mtimeMs: number;
+  programPath: NodePath<Program> | null;
+};
+
+const DEFAULT_EXTENSIONS = [".tsx", ".ts", ".jsx", ".js", ".mjs"];
+
+// Parsed modules are shared by every file that imports them and reparsed
+// when they change on disk
+const parsedModules = new Map<string, ParsedModule>();
+
+export function createImportedBindingResolver(
+  importer: string,
+  options: ImportedContentOptions,
+): ImportedBindingResolver {
+  const root = resolve(options.root ?? process.cwd());
+  const extensions = options.extensions ?? DEFAULT_EXTENSIONS;
+
+  const resolveModulePath = (
+    source: string,
+    fromPath: string,
+  ): string | null => {
+    if (source.startsWith("./") || source.startsWith("../")) {
+      return findModuleFile(join(dirname(fromPath), source), extensions);
+    }
+
+    const resolved = options.resolve?.(source, toReportedPath(root, fromPath));
+    if (!resolved) return null;
+    return findModuleFile(resolve(root, resolved), extensions);
+  };
+
+  // Follows an export through re-exports to the initializer it names
+  const resolveExport = (
+    modulePath: string,
+    exportName: string,
+    visited: Set<string>,
+  ): { modulePath: string; valuePath: NodePath<Expression> } | null => {
+    const key = `${modulePath}#${exportName}`;
+    if (visited.has(key)) return null;
+    visited.add(key);
+
+    const programPath = getProgramPath(modulePath);
+    if (!programPath) return null;
+
+    const resolveLocal = (localName: string) => {
+      const binding = programPath.scope.getBinding(localName);
+      if (!binding) return null;
+      if (binding.kind === "module") {
+        const importInfo = getImportInfo(binding);
+        if (!importInfo || importInfo.importedName === null) return null;
+        const sourcePath = resolveModulePath(importInfo.source, modulePath);
+        return sourcePath
+          ? resolveExport(sourcePath, importInfo.importedName, visited)
+          : null;
+      }
+      const valuePath = getConstantInitializerPath(binding);
+      return valuePath ? { modulePath, valuePath } : null;
+    };
+
+    for (const statementPath of programPath.get("body")) {
+      if (statementPath.isExportDefaultDeclaration()) {
+        if (exportName !== "default") continue;
+        const declarationPath = statementPath.get("declaration");
+        if (declarationPath.isIdentifier()) {
+          return resolveLocal(declarationPath.node.name);
+        }
+        const valuePath = unwrapExpressionPath(declarationPath as NodePath);
+        return valuePath ? { modulePath, valuePath } : null;
+      }
+
+      if (statementPath.isExportNamedDeclaration()) {
+        const { declaration, source } = statementPath.node;
+
+        if (t.isVariableDeclaration(declaration)) {
+          const declares = declaration.declarations.some((declarator) =>
+            t.isIdentifier(declarator.id, { name: exportName }),
+          );
+          if (declares) return resolveLocal(exportName);
+          continue;
+        }
+
+        for (const specifier of statementPath.node.specifiers) {
+          if (!t.isExportSpecifier(specifier)) continue;
+          if (getModuleExportName(specifier.exported) !== exportName) {
+            continue;
+          }
+
+          const localName = getModuleExportName(specifier.local);
+          if (!source) return resolveLocal(localName);
+
+          const sourcePath = resolveModulePath(source.value, modulePath);
+          return sourcePath
+            ? resolveExport(sourcePath, localName, visited)
+            : null;
+        }
+      }
+    }
+
+    // export * never re-exports a default
+    if (exportName === "default") return null;
+
+    for (const statementPath of programPath.get("body")) {
+      if (!statementPath.isExportAllDeclaration()) continue;
+      const sourcePath = resolveModulePath(
+        statementPath.node.source.value,
+        modulePath,
+      );
+      const resolved = sourcePath
+        ? resolveExport(sourcePath, exportName, visited)
+        : null;
+      if (resolved) return resolved;
+    }
+
+    return null;
+  };
+
+  return (binding, segments) => {
+    const importInfo = getImportInfo(binding);
+    if (!importInfo) return null;
+
+    const importerPath = resolve(root, importer);
+    const modulePath = resolveModulePath(importInfo.source, importerPath);
+    if (!modulePath) return null;
+
+    // import * as content: the first segment names the export
+    let exportName = importInfo.importedName;
+    let remainingSegments = segments;
+    if (exportName === null) {
+      const [first, ...rest] = segments;
+      if (first?.kind !== "property") return null;
+      exportName = first.name;
+      remainingSegments = rest;
+    }
+
+    const resolved = resolveExport(modulePath, exportName, new Set());
+    if (!resolved) return null;
+
+    return {
+      filename: toReportedPath(root, resolved.modulePath),
+      valuePath: resolved.valuePath,
+      segments: remainingSegments,
+    };
+  };
+}
+
+// importedName is null for namespace imports
+function getImportInfo(
+  binding: Binding,
+): { source: string; importedName: string | null } | null {
+  const specifierPath = binding.path;
+  const declaration = specifierPath.parent;
+  if (!t.isImportDeclaration(declaration)) return null;
+  if (declaration.importKind === "type") return null;
+
+  const specifier = specifierPath.node;
+  if (t.isImportDefaultSpecifier(specifier)) {
+    return { source: declaration.source.value, importedName: "default" };
+  }
+  if (t.isImportNamespaceSpecifier(specifier)) {
+    return { source: declaration.source.value, importedName: null };
+  }
+  if (t.isImportSpecifier(specifier)) {
+    if (specifier.importKind === "type") return null;
+    return {
+      source: declaration.source.value,
+      importedName: getModuleExportName(specifier.imported),
+    };
+  }
+
+  return null;
+}
+
+function getModuleExportName(node: t.Identifier | t.StringLiteral): string {
+  return t.isIdentifier(node) ? node.name : node.value;
+}
+
+function getConstantInitializerPath(
+  binding: Binding,
+): NodePath<Expression> | null {
+  if (binding.constantViolations.length > 0) return null;
+  if (!binding.path.isVariableDeclarator()) return null;
+  if (!t.isIdentifier(binding.path.node.id)) return null;
+
+  const initPath = binding.path.get("init");
+  if (!initPath.node) return null;
+
+  return unwrapExpressionPath(initPath as NodePath);
+}
+
+function findModuleFile(basePath: string, extensions: string[]): string | null {
+  const candidates = [
+    ...(extname(basePath) ? [basePath] : []),
+    ...extensions.map((extension) => `${basePath}${extension}`),
+    ...extensions.map((extension) => join(basePath, `index${extension}`)),
+  ];
+
+  return (
+    candidates.find(
+      (candidate) => existsSync(candidate) && statSync(candidate).isFile(),
+    ) ?? null
+  );
+}
+
+function getProgramPath(modulePath: string): NodePath<Program> | null {
+  const { mtimeMs } = statSync(modulePath);
+  const cached = parsedModules.get(modulePath);
+  if (cached && cached.mtimeMs === mtimeMs) return cached.programPath;
+
+  const programPath = parseModule(modulePath);
+  parsedModules.set(modulePath, { mtimeMs, programPath });
+  return programPath;
+}
+
+function parseModule(modulePath: string): NodePath<Program> | null {
+  const extension = extname(modulePath);
+  const plugins: ("jsx" | "typescript")[] =
+    extension === ".ts" || extension === ".mts" || extension === ".cts"
+      ? ["typescript"]
+      : extension === ".tsx"
+        ? ["jsx", "typescript"]
+        : ["jsx"];
+
+  let ast: t.File | null;
+  try {
+    ast = parseSync(readFileSync(modulePath, "utf8"), {
+      filename: modulePath,
+      babelrc: false,
+      configFile: false,
+      sourceType: "module",
+      parserOpts: { plugins },
+    });
+  } catch {
+    return null;
+  }
+  if (!ast) return null;
+
+  let programPath: NodePath<Program> | null = null;
+  traverse(ast, {
+    Program(path) {
+      programPath = path;
+      path.stop();
+    },
+  });
+  return programPath;
+}
+
+function toReportedPath(root: string, modulePath: string): string {
+  const reported = isAbsolute(modulePath)
+    ? relative(root, modulePath)
+    : modulePath;
+  return reported.split("\\").join("/");
+}
@@ -1,7 +1,35 @@
 export { attachBridge, type BridgeOptions } from "./attachBridge";
 export { attachMetadata, type MetadataOptions } from "./attachMetadata";
 export { detachMetadata, type DetachOptions } from "./detachMetadata";
+export {
+  createEditorIdRegistry,
+  createFileEditorIdRegistry,
+  type EditorIdRegistry,
+} from "./editorIdRegistry";
+export type {
+  EditorIdManifest,
+  EditorIdManifestEntry,
+  ManifestOptions,
+} from "./editorIdManifest";
+export type { MetadataEncoding, MetadataTableOutput } from "./compactMetadata";
+export type {
+  MetadataTable,
+  MetadataTableEntry,
+  MetadataTables,
+} from "./metadataTable";
+export type { ClassSource } from "./classNameMetadata";
+export type { ImportedContentOptions } from "./importedContent";
+export type { IdMigrationReport } from "./editorIdMigration";
+export type { IdGenerator, IdGeneratorInfo } from "./editorIds";
+export {
+  DEFAULT_ATTRIBUTE_NAMES,
+  type MetadataAttributeNames,
+} from "./attributeNames";
 export type { ElementOverrides, BridgeMessage } from "./LivePreviewBridge";
+export type { TextMarkerEntry } from "./TextMarker";
 
 // Auto-generated source code of LivePreviewBridge component
 export const LivePreviewBridgeSource = "";
+
+// Auto-generated source code of TextMarker component
+export const TextMarkerSource = "";
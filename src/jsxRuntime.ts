@@ -0,0 +1,100 @@
+import { types as t } from "@babel/core";
+import type { Scope } from "@babel/traverse";
+import type { Expression, V8IntrinsicIdentifier } from "@babel/types";
+
+// "createElement" calls take children as extra arguments, while the
+// automatic runtime's jsx/jsxs/jsxDEV take them from props.children.
+export type ElementFactoryKind = "createElement" | "jsx";
+
+const JSX_RUNTIME_SOURCES = ["react/jsx-runtime", "react/jsx-dev-runtime"];
+const JSX_RUNTIME_FACTORIES = ["jsx", "jsxs", "jsxDEV"];
+
+export function getElementFactoryKind(
+  callee: Expression | V8IntrinsicIdentifier,
+  scope: Scope,
+): ElementFactoryKind | null {
+  // (0, _jsxRuntime.jsx)(...) as emitted by the CommonJS transform
+  if (t.isSequenceExpression(callee)) {
+    const lastExpression = callee.expressions[callee.expressions.length - 1];
+    return lastExpression ? getElementFactoryKind(lastExpression, scope) : null;
+  }
+
+  if (t.isIdentifier(callee)) {
+    const binding = scope.getBinding(callee.name);
+    if (!binding || !binding.path.isImportSpecifier()) return null;
+
+    const importDeclaration = binding.path.parentPath;
+    if (!importDeclaration?.isImportDeclaration()) return null;
+
+    const imported = binding.path.node.imported;
+    const importedName = t.isIdentifier(imported)
+      ? imported.name
+      : imported.value;
+
+    return getFactoryKind(importDeclaration.node.source.value, importedName);
+  }
+
+  if (
+    t.isMemberExpression(callee) &&
+    !callee.computed &&
+    t.isIdentifier(callee.property) &&
+    t.isIdentifier(callee.object)
+  ) {
+    const source = getModuleSource(callee.object.name, scope);
+    return source ? getFactoryKind(source, callee.property.name) : null;
+  }
+
+  return null;
+}
+
+function getFactoryKind(
+  source: string,
+  exportName: string,
+): ElementFactoryKind | null {
+  if (
+    JSX_RUNTIME_SOURCES.includes(source) &&
+    JSX_RUNTIME_FACTORIES.includes(exportName)
+  ) {
+    return "jsx";
+  }
+
+  if (source === "react" && exportName === "createElement") {
+    return "createElement";
+  }
+
+  return null;
+}
+
+// Resolves the module a namespace-like identifier refers to: a default or
+// namespace import, or a `require()` result. An unbound `React` is assumed
+// to be the global React.
+function getModuleSource(name: string, scope: Scope): string | null {
+  const binding = scope.getBinding(name);
+  if (!binding) {
+    return name === "React" ? "react" : null;
+  }
+
+  const bindingPath = binding.path;
+  if (
+    bindingPath.isImportDefaultSpecifier() ||
+    bindingPath.isImportNamespaceSpecifier()
+  ) {
+    const importDeclaration = bindingPath.parentPath;
+    return importDeclaration?.isImportDeclaration()
+      ? importDeclaration.node.source.value
+      : null;
+  }
+
+  if (bindingPath.isVariableDeclarator()) {
+    const init = bindingPath.node.init;
+    if (
+      t.isCallExpression(init) &&
+      t.isIdentifier(init.callee, { name: "require" }) &&
+      t.isStringLiteral(init.arguments[0])
+    ) {
+      return init.arguments[0].value;
+    }
+  }
+
+  return null;
+}
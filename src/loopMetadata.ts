@@ -4,9 +4,13 @@ import {
   type AttributeValue,
   buildLocationAttributeValue,
   extractPropertyAccess,
-  unwrapExpressionPath,
+  resolveSegmentsPath,
   type PropertyAccessSegment,
 } from "./propertyAccess";
+import { getHostTagName } from "./elementClassification";
+import { annotatePropSources } from "./propSourceMetadata";
+import type { MetadataAttributeNames } from "./attributeNames";
+import type { ImportedBindingResolver } from "./importedContent";
 import type {
   ArrowFunctionExpression,
   CallExpression,
@@ -37,10 +41,28 @@ export type LoopHelpers<Context> = {
     value: AttributeValue,
   ) => void;
   isReactComponent: (element: JSXElement) => boolean;
+  isFragmentElement: (element: JSXElement) => boolean;
+  attributeNames: MetadataAttributeNames;
+  // Props mapped to their defining string literals in data-prop-sources
+  sourceProps: string[];
+  // clsx-style functions whose arguments are read for data-class-sources
+  classNameFunctions: string[];
+  // Set when the importedContent option is on
+  resolveImportedBinding: ImportedBindingResolver | null;
 };
 
+export type ComponentFunctionPath = NodePath<
+  | ArrowFunctionExpression
+  | FunctionExpression
+  | t.FunctionDeclaration
+  | t.ClassMethod
+>;
+
 type CollectionSourceInfo = {
   sourceName: string;
+  // File the collection is defined in, which differs from the file being
+  // transformed when it is imported
+  filename: string;
   elementPaths: NodePath<Expression | SpreadElement | null>[];
 };
 
@@ -56,9 +78,7 @@ type LoopContext<Context> = {
 const processedLoopElements = new WeakSet<JSXElement>();
 
 export function attachLoopMetadata<Context>(params: {
-  functionLikePath: NodePath<
-    ArrowFunctionExpression | FunctionExpression | t.FunctionDeclaration
-  >;
+  functionLikePath: ComponentFunctionPath;
   filename: string;
   context: Context;
   helpers: LoopHelpers<Context>;
@@ -67,11 +87,172 @@ export function attachLoopMetadata<Context>(params: {
 
   functionLikePath.traverse({
     CallExpression(callPath: NodePath<CallExpression>) {
+      annotateLoopInstances(callPath, helpers);
       processCollectionRenderingCall(callPath, filename, context, helpers);
     },
   });
 }
 
+function getMapCallbackPath(
+  callPath: NodePath<CallExpression>,
+): NodePath<ArrowFunctionExpression | FunctionExpression> | null {
+  const calleePath = callPath.get("callee");
+  if (!calleePath.isMemberExpression()) return null;
+
+  const propertyPath = calleePath.get("property");
+  if (!propertyPath.isIdentifier({ name: "map" })) return null;
+
+  const callbackArgPath = callPath.get("arguments")[0];
+  if (
+    !callbackArgPath ||
+    (!callbackArgPath.isArrowFunctionExpression() &&
+      !callbackArgPath.isFunctionExpression())
+  ) {
+    return null;
+  }
+
+  return callbackArgPath;
+}
+
+// Every item rendered by a .map callback shares the elements' static
+// data-editor-id, so each host element in the item also gets a
+// data-editor-instance from the item's key or index. Items of nested loops
+// combine it with the enclosing item's instance ("outer:inner").
+function annotateLoopInstances<Context>(
+  callPath: NodePath<CallExpression>,
+  helpers: LoopHelpers<Context>,
+): void {
+  const callbackPath = getMapCallbackPath(callPath);
+  if (!callbackPath) return;
+
+  const enclosingInstance = getEnclosingInstanceExpression(
+    callPath,
+    helpers.attributeNames.editorInstance,
+  );
+
+  for (const elementPath of getReturnedJSXElements(callbackPath, helpers)) {
+    const instanceExpression = getInstanceExpression(
+      elementPath,
+      callbackPath,
+      helpers,
+    );
+    if (!instanceExpression) continue;
+
+    const value = enclosingInstance
+      ? t.templateLiteral(
+          [
+            t.templateElement({ raw: "", cooked: "" }),
+            t.templateElement({ raw: ":", cooked: ":" }),
+            t.templateElement({ raw: "", cooked: "" }, true),
+          ],
+          [t.cloneNode(enclosingInstance, true), instanceExpression],
+        )
+      : instanceExpression;
+
+    setInstanceAttribute(elementPath, value, helpers);
+    elementPath.traverse({
+      JSXElement(innerPath) {
+        setInstanceAttribute(innerPath, value, helpers);
+      },
+      Function(innerFnPath) {
+        innerFnPath.skip();
+      },
+    });
+  }
+}
+
+function setInstanceAttribute<Context>(
+  elementPath: NodePath<JSXElement>,
+  value: Expression,
+  helpers: LoopHelpers<Context>,
+): void {
+  if (helpers.isReactComponent(elementPath.node)) return;
+  if (helpers.isFragmentElement(elementPath.node)) return;
+
+  helpers.setOrUpdateAttribute(
+    elementPath.node.openingElement,
+    helpers.attributeNames.editorInstance,
+    t.cloneNode(value, true),
+  );
+}
+
+// Keys that are identifiers or member chains (item.id) are copied onto every
+// element of the item. Other keys, such as makeKey(item), would be evaluated
+// again for each copy, so the index is used instead.
+function getInstanceExpression<Context>(
+  elementPath: NodePath<JSXElement>,
+  callbackPath: NodePath<ArrowFunctionExpression | FunctionExpression>,
+  helpers: LoopHelpers<Context>,
+): Expression | null {
+  const keyExpression = getKeyExpression(elementPath, helpers);
+  if (!keyExpression) return getIndexParamExpression(callbackPath);
+
+  return extractPropertyAccess(keyExpression)
+    ? t.cloneNode(keyExpression, true)
+    : getOrAddIndexParamExpression(callbackPath);
+}
+
+// The item's own key, or the key of the <Fragment> it was unwrapped from.
+// Literal keys are the same for every item and so cannot tell them apart.
+function getKeyExpression<Context>(
+  elementPath: NodePath<JSXElement>,
+  helpers: LoopHelpers<Context>,
+): Expression | null {
+  let currentPath: NodePath | null = elementPath;
+
+  while (currentPath?.isJSXElement()) {
+    for (const attr of currentPath.node.openingElement.attributes) {
+      if (
+        t.isJSXAttribute(attr) &&
+        t.isJSXIdentifier(attr.name, { name: "key" }) &&
+        t.isJSXExpressionContainer(attr.value) &&
+        t.isExpression(attr.value.expression) &&
+        !isConstantKey(attr.value.expression)
+      ) {
+        return attr.value.expression;
+      }
+    }
+
+    currentPath = currentPath.parentPath;
+    if (!currentPath?.isJSXElement()) break;
+    if (!helpers.isFragmentElement(currentPath.node)) break;
+  }
+
+  return null;
+}
+
+function isConstantKey(expression: Expression): boolean {
+  return t.isTemplateLiteral(expression)
+    ? expression.expressions.length === 0
+    : t.isLiteral(expression);
+}
+
+function getEnclosingInstanceExpression(
+  callPath: NodePath<CallExpression>,
+  instanceAttributeName: string,
+): Expression | null {
+  let instanceExpression: Expression | null = null;
+
+  callPath.findParent((parentPath) => {
+    if (!parentPath.isJSXElement()) return false;
+
+    for (const attr of parentPath.node.openingElement.attributes) {
+      if (
+        t.isJSXAttribute(attr) &&
+        t.isJSXIdentifier(attr.name, { name: instanceAttributeName }) &&
+        t.isJSXExpressionContainer(attr.value) &&
+        t.isExpression(attr.value.expression)
+      ) {
+        instanceExpression = attr.value.expression;
+        return true;
+      }
+    }
+    return false;
+  });
+
+  return instanceExpression;
+}
+
 function processCollectionRenderingCall<Context>(
   callPath: NodePath<CallExpression>,
   filename: string,
@@ -84,27 +265,21 @@ function processCollectionRenderingCall<Context>(
     return;
   }
 
-  const calleePath = callPath.get("callee");
-  if (!calleePath.isMemberExpression()) return;
-
-  const propertyPath = calleePath.get("property");
-  if (!propertyPath.isIdentifier({ name: "map" })) return;
+  const callbackArgPath = getMapCallbackPath(callPath);
+  if (!callbackArgPath) return;
 
-  const sourceObjectPath = calleePath.get("object");
-  if (!sourceObjectPath.isIdentifier()) return;
+  const sourceObjectPath = (
+    callPath.get("callee") as NodePath<t.MemberExpression>
+  ).get("object");
+  if (!sourceObjectPath.isExpression()) return;
 
-  const collectionInfo = resolveCollectionSourceInfo(sourceObjectPath);
+  const collectionInfo = resolveCollectionSourceInfo(
+    sourceObjectPath,
+    filename,
+    helpers,
+  );
   if (!collectionInfo) return;
 
-  const callbackArgPath = callPath.get("arguments")[0];
-  if (
-    !callbackArgPath ||
-    (!callbackArgPath.isArrowFunctionExpression() &&
-      !callbackArgPath.isFunctionExpression())
-  ) {
-    return;
-  }
-
   const functionParent = callPath.getFunctionParent();
   if (
     functionParent &&
@@ -114,7 +289,7 @@ function processCollectionRenderingCall<Context>(
     // Ensure we only process callbacks defined in the same scope as the component
   }
 
-  const returnedElements = getReturnedJSXElements(callbackArgPath);
+  const returnedElements = getReturnedJSXElements(callbackArgPath, helpers);
   if (returnedElements.length === 0) return;
 
   const itemParamNames = collectItemParamNames(callbackArgPath);
@@ -136,74 +311,67 @@ function processCollectionRenderingCall<Context>(
   }
 }
 
-function resolveCollectionSourceInfo(
-  sourceIdentifierPath: NodePath<t.Identifier>,
+// The .map receiver is either a collection variable or a property path into
+// one (content.faqs, data.sections[0].items), resolved through the
+// variable's object literal to the array. Imported variables are followed
+// into their module by the importedContent resolver.
+function resolveCollectionSourceInfo<Context>(
+  sourceObjectPath: NodePath<Expression>,
+  filename: string,
+  helpers: LoopHelpers<Context>,
 ): CollectionSourceInfo | null {
-  const binding = sourceIdentifierPath.scope.getBinding(
-    sourceIdentifierPath.node.name,
-  );
+  const access = extractPropertyAccess(sourceObjectPath.node);
+  if (!access) return null;
 
+  const binding = sourceObjectPath.scope.getBinding(access.baseName);
   if (!binding) return null;
-  if (binding.kind === "module") return null;
-  if (!binding.path.isVariableDeclarator()) return null;
 
-  const initPath = binding.path.get("init");
-  if (!initPath) return null;
+  let valuePath: NodePath | null = null;
+  let segments = access.segments;
+  let sourceFilename = filename;
+
+  if (binding.kind === "module") {
+    const imported = helpers.resolveImportedBinding?.(binding, segments);
+    if (!imported) return null;
 
-  const unwrappedInitPath = unwrapExpressionPath(initPath as NodePath);
-  if (!unwrappedInitPath || !unwrappedInitPath.isArrayExpression()) {
+    valuePath = imported.valuePath;
+    segments = imported.segments;
+    sourceFilename = imported.filename;
+  } else if (binding.path.isVariableDeclarator()) {
+    const initPath = binding.path.get("init");
+    if (initPath.node) valuePath = initPath as NodePath;
+  }
+  if (!valuePath) return null;
+
+  const collectionPath = resolveSegmentsPath(valuePath, segments);
+  if (!collectionPath || !collectionPath.isArrayExpression()) {
     return null;
   }
 
-  const elementPaths = unwrappedInitPath.get("elements") as NodePath<
+  const elementPaths = collectionPath.get("elements") as NodePath<
     Expression | SpreadElement | null
   >[];
 
   return {
-    sourceName: sourceIdentifierPath.node.name,
+    sourceName: access.baseName,
+    filename: sourceFilename,
     elementPaths,
   };
 }
 
-function getReturnedJSXElements(
+function getReturnedJSXElements<Context>(
   callbackPath: NodePath<ArrowFunctionExpression | FunctionExpression>,
+  helpers: LoopHelpers<Context>,
 ): NodePath<JSXElement>[] {
   const elements: NodePath<JSXElement>[] = [];
   const bodyPath = callbackPath.get("body");
 
-  if (bodyPath.isJSXElement()) {
-    elements.push(bodyPath as NodePath<JSXElement>);
-    return elements;
-  }
-
-  if (bodyPath.isJSXFragment()) {
-    const children = bodyPath.get("children");
-    for (const childPath of children) {
-      if (Array.isArray(childPath)) continue;
-      if (childPath.isJSXElement()) {
-        elements.push(childPath);
-      }
-    }
-    return elements;
-  }
-
   if (bodyPath.isBlockStatement()) {
     bodyPath.traverse({
       ReturnStatement(returnPath) {
         const argumentPath = returnPath.get("argument");
-        if (!argumentPath) return;
-
-        if (argumentPath.isJSXElement()) {
-          elements.push(argumentPath as NodePath<JSXElement>);
-        } else if (argumentPath.isJSXFragment()) {
-          const fragmentChildren = argumentPath.get("children");
-          for (const fragmentChild of fragmentChildren) {
-            if (Array.isArray(fragmentChild)) continue;
-            if (fragmentChild.isJSXElement()) {
-              elements.push(fragmentChild);
-            }
-          }
-        }
+        if (!argumentPath.node) return;
+        collectReturnedJSXElements(argumentPath as NodePath, elements, helpers);
       },
       Function(innerFnPath) {
         innerFnPath.skip();
@@ -212,11 +380,38 @@ function getReturnedJSXElements(
         innerArrowPath.skip();
       },
     });
+  } else {
+    collectReturnedJSXElements(bodyPath as NodePath, elements, helpers);
   }
 
   return elements;
 }
 
+// Keyed <Fragment> elements are unwrapped like <>...</> so their children
+// become the loop's rendered items.
+function collectReturnedJSXElements<Context>(
+  path: NodePath,
+  elements: NodePath<JSXElement>[],
+  helpers: LoopHelpers<Context>,
+): void {
+  if (
+    path.isJSXFragment() ||
+    (path.isJSXElement() && helpers.isFragmentElement(path.node))
+  ) {
+    const children = path.get("children") as NodePath[];
+    for (const childPath of children) {
+      if (childPath.isJSXElement() || childPath.isJSXFragment()) {
+        collectReturnedJSXElements(childPath, elements, helpers);
+      }
+    }
+    return;
+  }
+
+  if (path.isJSXElement()) {
+    elements.push(path);
+  }
+}
+
 function collectItemParamNames(
   callbackPath: NodePath<ArrowFunctionExpression | FunctionExpression>,
 ): Set<string> {
@@ -328,6 +523,27 @@ function getIndexParamExpression(
   return null;
 }
 
+// The callback's index parameter, added to the callback when it only takes
+// the item: (item) => ... becomes (item, _index) => ...
+function getOrAddIndexParamExpression(
+  callbackPath: NodePath<ArrowFunctionExpression | FunctionExpression>,
+): Expression | null {
+  const indexExpression = getIndexParamExpression(callbackPath);
+  if (indexExpression) return indexExpression;
+
+  const { params } = callbackPath.node;
+  if (params.length > 1 || params.some((param) => t.isRestElement(param))) {
+    return null;
+  }
+
+  if (params.length === 0) {
+    params.push(callbackPath.scope.generateUidIdentifier("item"));
+  }
+  const indexParam = callbackPath.scope.generateUidIdentifier("index");
+  params.push(indexParam);
+  return t.identifier(indexParam.name);
+}
+
 function processLoopElement<Context>(
   elementPath: NodePath<JSXElement>,
   filename: string,
@@ -380,6 +596,25 @@ function applyLoopAnnotations<Context>(
 
     if (helpers.isReactComponent(currentPath.node)) return;
 
+    annotatePropSources(
+      currentPath,
+      loopContext.filename,
+      helpers,
+      (expressionPath) => {
+        const access = extractPropertyAccess(expressionPath.node);
+        if (!access || !loopContext.itemParamNames.has(access.baseName)) {
+          return null;
+        }
+        return {
+          elementPaths: loopContext.collectionInfo.elementPaths,
+          segments: access.segments,
+          perItem: true,
+          filename: loopContext.collectionInfo.filename,
+        };
+      },
+      loopContext.indexExpression,
+    );
+
     if (!elementReferencesParamNames(currentPath, loopContext.itemParamNames)) {
       return;
     }
@@ -436,7 +671,7 @@ function annotateDynamicChildrenForElement<Context>(
   elementPath: NodePath<JSXElement>,
   loopContext: LoopContext<Context>,
 ): void {
-  const { helpers, filename } = loopContext;
+  const { helpers, collectionInfo } = loopContext;
 
   if (helpers.isReactComponent(elementPath.node)) return;
 
@@ -448,8 +683,8 @@ function annotateDynamicChildrenForElement<Context>(
   if (!dynamicChildInfo) return;
 
   const value = buildLocationAttributeValue({
-    filename,
-    elementPaths: loopContext.collectionInfo.elementPaths,
+    filename: collectionInfo.filename,
+    elementPaths: collectionInfo.elementPaths,
     segments: dynamicChildInfo.segments,
     indexExpression: loopContext.indexExpression ?? undefined,
   });
@@ -457,7 +692,7 @@ function annotateDynamicChildrenForElement<Context>(
   if (value) {
     helpers.setOrUpdateAttribute(
       elementPath.node.openingElement,
-      "data-children-source",
+      helpers.attributeNames.childrenSource,
       value,
     );
   }
@@ -470,8 +705,8 @@ function annotateImgSource<Context>(
   const { collectionInfo, indexExpression, helpers } = loopContext;
 
   const openingElement = elementPath.node.openingElement;
-  if (!t.isJSXIdentifier(openingElement.name)) return;
-  if (openingElement.name.name !== "img") return;
+  if (helpers.isReactComponent(elementPath.node)) return;
+  if (getHostTagName(openingElement.name) !== "img") return;
 
   const attributePaths = elementPath
     .get("openingElement")
@@ -495,7 +730,7 @@ function annotateImgSource<Context>(
     if (!loopContext.itemParamNames.has(access.baseName)) continue;
 
     const sourceValue = buildLocationAttributeValue({
-      filename: loopContext.filename,
+      filename: collectionInfo.filename,
       elementPaths: collectionInfo.elementPaths,
       segments: access.segments,
       indexExpression: indexExpression ?? undefined,
@@ -504,7 +739,7 @@ function annotateImgSource<Context>(
     if (sourceValue) {
       helpers.setOrUpdateAttribute(
         openingElement,
-        "data-img-source",
+        helpers.attributeNames.imgSource,
         sourceValue,
       );
     }
@@ -0,0 +1,47 @@
+import type { ClassSource } from "./classNameMetadata";
+import type {
+  ManifestSource,
+  SourceLocationDescriptor,
+} from "./editorIdManifest";
+
+// What compact mode moves off each element, keyed by its editor ID
+export type MetadataTableEntry = {
+  file: string;
+  component: string | null;
+  // Component root elements (data-component-file/data-component-name)
+  root?: true;
+  componentNameInferred?: true;
+  childrenSource?: ManifestSource;
+  imgSource?: ManifestSource;
+  propSources?: Record<string, SourceLocationDescriptor>;
+  textSource?: SourceLocationDescriptor[];
+  textSources?: SourceLocationDescriptor[];
+  classSources?: ClassSource[];
+};
+
+export type MetadataTable = Record<string, MetadataTableEntry>;
+
+// Editor IDs are only unique within a file, so each compact module registers
+// its table under its own file (see the metadataTable option). Reloading a
+// module replaces its table as a whole.
+export type MetadataTables = Record<string, MetadataTable>;
+
+export const METADATA_TABLE_GLOBAL = "__editorMetadata";
+
+// Without a file, the entry is only returned when a single file has the ID.
+export function getMetadataTableEntry(
+  editorId: string,
+  file?: string,
+): MetadataTableEntry | null {
+  const tables = (globalThis as Record<string, unknown>)[
+    METADATA_TABLE_GLOBAL
+  ] as MetadataTables | undefined;
+  if (!tables) return null;
+
+  if (file) return tables[file]?.[editorId] ?? null;
+
+  const entries = Object.values(tables)
+    .map((table) => table[editorId])
+    .filter((entry): entry is MetadataTableEntry => !!entry);
+  return entries.length === 1 ? entries[0] : null;
+}
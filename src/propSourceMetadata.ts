@@ -0,0 +1,187 @@
+import { types as t } from "@babel/core";
+import type { NodePath } from "@babel/traverse";
+import type {
+  Expression,
+  JSXAttribute,
+  JSXElement,
+  SpreadElement,
+} from "@babel/types";
+import type { SourceLocationDescriptor } from "./editorIdManifest";
+import type { LoopHelpers } from "./loopMetadata";
+import {
+  type AttributeValue,
+  createJSONAttributeValue,
+  getLocationDescriptor,
+  type PropertyAccessSegment,
+  resolveSegmentsNode,
+} from "./propertyAccess";
+
+export const DEFAULT_SOURCE_PROPS = [
+  "href",
+  "src",
+  "alt",
+  "title",
+  "placeholder",
+  "aria-label",
+  "className",
+];
+
+// Where a prop expression reads its value from: the initializers it resolves
+// to and the property path within them. Loop item props resolve to every
+// entry of the collection. filename is set when the initializers are in
+// another module.
+export type PropValueSource = {
+  elementPaths: NodePath<Expression | SpreadElement | null>[];
+  segments: PropertyAccessSegment[];
+  perItem: boolean;
+  filename?: string;
+};
+
+export type ResolvePropValue = (
+  expressionPath: NodePath<Expression>,
+) => PropValueSource | null;
+
+type PropLocations = {
+  name: string;
+  // One location per collection entry when perItem is set
+  locations: (SourceLocationDescriptor | null)[];
+  perItem: boolean;
+};
+
+// Maps allowlisted props of a host element to the string literals that
+// define them, whether written inline or resolved through resolveValue.
+export function annotatePropSources<Context>(
+  elementPath: NodePath<JSXElement>,
+  filename: string,
+  helpers: LoopHelpers<Context>,
+  resolveValue: ResolvePropValue,
+  indexExpression: Expression | null = null,
+): void {
+  if (helpers.sourceProps.length === 0) return;
+  if (helpers.isReactComponent(elementPath.node)) return;
+
+  const props: PropLocations[] = [];
+  const attributePaths = elementPath
+    .get("openingElement")
+    .get("attributes") as NodePath[];
+
+  for (const attrPath of attributePaths) {
+    if (!attrPath.isJSXAttribute()) continue;
+
+    const name = getAttributeName(attrPath.node);
+    if (!helpers.sourceProps.includes(name)) continue;
+
+    const propLocations = getPropLocations(attrPath, filename, resolveValue);
+    if (propLocations) props.push({ name, ...propLocations });
+  }
+
+  if (props.length === 0) return;
+
+  helpers.setOrUpdateAttribute(
+    elementPath.node.openingElement,
+    helpers.attributeNames.propSources,
+    buildPropSourcesValue(props, indexExpression),
+  );
+}
+
+function getAttributeName(attr: JSXAttribute): string {
+  return t.isJSXIdentifier(attr.name)
+    ? attr.name.name
+    : `${attr.name.namespace.name}:${attr.name.name.name}`;
+}
+
+function getPropLocations(
+  attrPath: NodePath<JSXAttribute>,
+  filename: string,
+  resolveValue: ResolvePropValue,
+): Omit<PropLocations, "name"> | null {
+  const valuePath = attrPath.get("value");
+  if (!valuePath.node) return null;
+
+  if (valuePath.isStringLiteral()) {
+    return getInlineLocation(valuePath.node, filename);
+  }
+  if (!valuePath.isJSXExpressionContainer()) return null;
+
+  const expressionPath = valuePath.get("expression");
+  if (isStringLiteralValue(expressionPath.node)) {
+    return getInlineLocation(expressionPath.node, filename);
+  }
+  if (!expressionPath.isExpression()) return null;
+
+  const source = resolveValue(expressionPath);
+  if (!source) return null;
+
+  const locations = source.elementPaths.map((elementPath) => {
+    if (!elementPath.node || elementPath.isSpreadElement()) return null;
+
+    const node = resolveSegmentsNode(elementPath.node, source.segments);
+    return node && isStringLiteralValue(node) && node.loc
+      ? getLocationDescriptor(source.filename ?? filename, node.loc)
+      : null;
+  });
+
+  const firstLocation = locations.find((location) => location !== null);
+  if (!firstLocation) return null;
+
+  return source.perItem
+    ? { locations, perItem: true }
+    : { locations: [firstLocation], perItem: false };
+}
+
+function getInlineLocation(
+  node: t.Node,
+  filename: string,
+): Omit<PropLocations, "name"> | null {
+  if (!node.loc) return null;
+  return {
+    locations: [getLocationDescriptor(filename, node.loc)],
+    perItem: false,
+  };
+}
+
+function isStringLiteralValue(node: t.Node): boolean {
+  return (
+    t.isStringLiteral(node) ||
+    (t.isTemplateLiteral(node) && node.expressions.length === 0)
+  );
+}
+
+// A JSON object of prop name to location. When props are read from a loop
+// item, one object is built per collection entry and picked by the item's
+// index, as data-children-source does.
+function buildPropSourcesValue(
+  props: PropLocations[],
+  indexExpression: Expression | null,
+): AttributeValue {
+  const itemCount = Math.max(
+    1,
+    ...props.filter(({ perItem }) => perItem).map((p) => p.locations.length),
+  );
+
+  const buildItemValue = (index: number): string | null => {
+    const sources: Record<string, SourceLocationDescriptor> = {};
+    for (const { name, locations, perItem } of props) {
+      const location = perItem ? locations[index] : locations[0];
+      if (location) sources[name] = location;
+    }
+    return Object.keys(sources).length > 0 ? JSON.stringify(sources) : null;
+  };
+
+  if (!indexExpression || itemCount === 1) {
+    return createJSONAttributeValue(buildItemValue(0) ?? "{}");
+  }
+
+  const itemValues = Array.from({ length: itemCount }, (_, index) => {
+    const value = buildItemValue(index);
+    return value ? t.stringLiteral(value) : t.nullLiteral();
+  });
+
+  return t.jsxExpressionContainer(
+    t.memberExpression(
+      t.arrayExpression(itemValues),
+      t.cloneNode(indexExpression, true),
+      true,
+    ),
+  );
+}
@@ -20,10 +20,6 @@ export type PropertyAccess = {
 export function unwrapExpressionPath(
   path: NodePath,
 ): NodePath<Expression> | null {
-  if (path.isExpression()) {
-    return path as NodePath<Expression>;
-  }
-
   if (
     path.isTSAsExpression() ||
     path.isTypeCastExpression() ||
@@ -46,6 +42,10 @@ export function unwrapExpressionPath(
     return unwrapExpressionPath(parameterPath as NodePath);
   }
 
+  if (path.isExpression()) {
+    return path as NodePath<Expression>;
+  }
+
   return null;
 }
 
@@ -167,7 +167,7 @@ export function buildLocationAttributeValue({
   }
 
   if (!indexExpression || elementPaths.length === 1) {
-    return availableLocations[0] ?? null;
+    return createJSONAttributeValue(availableLocations[0]);
   }
 
   if (elementPaths.length === 1) {
@@ -196,7 +196,22 @@ function getLocationForSegments(
   if (!elementPath.node) return null;
   if (elementPath.isSpreadElement()) return null;
 
-  let currentNode: t.Node | null = elementPath.node;
+  const currentNode = resolveSegmentsNode(elementPath.node, segments);
+  if (!currentNode) return null;
+
+  const loc = currentNode.loc ?? elementPath.node.loc;
+  if (!loc) return null;
+
+  return formatLocation(filename, loc);
+}
+
+// Follows property and index segments through object and array literals.
+// Returns null when a segment cannot be resolved.
+export function resolveSegmentsNode(
+  node: t.Node,
+  segments: PropertyAccessSegment[],
+): t.Node | null {
+  let currentNode: t.Node = node;
 
   for (const segment of segments) {
     if (segment.kind === "property") {
@@ -228,21 +243,71 @@ function getLocationForSegments(
     }
   }
 
-  const loc = currentNode?.loc ?? elementPath.node.loc;
-  if (!loc) return null;
+  return currentNode;
+}
 
-  return formatLocation(filename, loc);
+// Path counterpart of resolveSegmentsNode, for callers that need paths to
+// the resolved node's children (e.g. the elements of a nested array).
+export function resolveSegmentsPath(
+  path: NodePath,
+  segments: PropertyAccessSegment[],
+): NodePath<Expression> | null {
+  let currentPath = unwrapExpressionPath(path);
+
+  for (const segment of segments) {
+    if (!currentPath) return null;
+
+    if (segment.kind === "property") {
+      if (!currentPath.isObjectExpression()) return null;
+      const propertyPath = currentPath
+        .get("properties")
+        .find(
+          (propPath) =>
+            propPath.isObjectProperty() &&
+            (t.isIdentifier(propPath.node.key, { name: segment.name }) ||
+              t.isStringLiteral(propPath.node.key, { value: segment.name })),
+        ) as NodePath<t.ObjectProperty> | undefined;
+      if (!propertyPath) return null;
+
+      currentPath = unwrapExpressionPath(propertyPath.get("value"));
+    } else {
+      if (!currentPath.isArrayExpression()) return null;
+      const elementPath = currentPath.get("elements")[segment.index];
+      if (!elementPath?.node) return null;
+
+      currentPath = unwrapExpressionPath(elementPath as NodePath);
+    }
+  }
+
+  return currentPath;
+}
+
+// JSON in a double-quoted JSX attribute is printed with \" escapes, which
+// JSX does not support, so the value is printed single-quoted to keep the
+// output parseable by later passes such as detachMetadata.
+export function createJSONAttributeValue(value: string): t.StringLiteral {
+  const literal = t.stringLiteral(value);
+  if (!value.includes("'")) {
+    literal.extra = { rawValue: value, raw: `'${value}'` };
+  }
+  return literal;
 }
 
 function formatLocation(filename: string, loc: t.SourceLocation): string {
+  return JSON.stringify(getLocationDescriptor(filename, loc));
+}
+
+export function getLocationDescriptor(
+  filename: string,
+  loc: Pick<t.SourceLocation, "start" | "end">,
+): { file: string; start: string; end: string } {
   const startLine = loc.start.line;
   const startColumn = loc.start.column + 1;
   const endLine = loc.end.line;
   const endColumn = loc.end.column + 1;
-  const locationDescriptor = {
+  return {
     file: filename,
     start: `${startLine}:${startColumn}`,
     end: `${endLine}:${endColumn}`,
-  } as const;
-  return JSON.stringify(locationDescriptor);
+  };
 }
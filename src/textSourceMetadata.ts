@@ -0,0 +1,53 @@
+import { types as t } from "@babel/core";
+import type { JSXText } from "@babel/types";
+import type { SourceLocationDescriptor } from "./editorIdManifest";
+import { getLocationDescriptor } from "./propertyAccess";
+
+type Position = t.SourceLocation["start"];
+
+// Locations of the literal text among an element's children, one per
+// non-whitespace text run with the surrounding whitespace trimmed, so text
+// interleaved with expressions never covers the expressions themselves.
+// Null when the children have no literal text.
+export function getTextSourceValue(
+  children: t.Node[],
+  filename: string,
+): string | null {
+  const textRuns = children.filter(
+    (child): child is JSXText =>
+      t.isJSXText(child) && child.value.trim() !== "" && !!child.loc,
+  );
+  if (textRuns.length === 0) return null;
+
+  return JSON.stringify(
+    textRuns.map((textRun) => getTextRunLocation(textRun, filename)),
+  );
+}
+
+function getTextRunLocation(
+  textRun: JSXText,
+  filename: string,
+): SourceLocationDescriptor {
+  const { value } = textRun;
+  const start = (textRun.loc as t.SourceLocation).start;
+  const leading = value.length - value.trimStart().length;
+  const trailing = value.length - value.trimEnd().length;
+
+  return getLocationDescriptor(filename, {
+    start: advancePosition(start, value.slice(0, leading)),
+    end: advancePosition(start, value.slice(0, value.length - trailing)),
+  });
+}
+
+function advancePosition(position: Position, text: string): Position {
+  let { line, column } = position;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === "\n") {
+      line++;
+      column = 0;
+    } else {
+      column++;
+    }
+  }
+  return { ...position, line, column, index: position.index + text.length };
+}
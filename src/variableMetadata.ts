@@ -1,9 +1,7 @@
 import { types as t } from "@babel/core";
 import type { Binding, NodePath } from "@babel/traverse";
 import type {
-  ArrowFunctionExpression,
   Expression,
-  FunctionExpression,
   JSXElement,
   SpreadElement,
 } from "@babel/types";
@@ -12,13 +10,14 @@ import {
   extractPropertyAccess,
   unwrapExpressionPath,
   type PropertyAccess,
+  type PropertyAccessSegment,
 } from "./propertyAccess";
-import type { LoopHelpers } from "./loopMetadata";
+import { getHostTagName } from "./elementClassification";
+import { annotatePropSources } from "./propSourceMetadata";
+import type { ComponentFunctionPath, LoopHelpers } from "./loopMetadata";
 
 type VariableMetadataParams<Context> = {
-  functionLikePath: NodePath<
-    ArrowFunctionExpression | FunctionExpression | t.FunctionDeclaration
-  >;
+  functionLikePath: ComponentFunctionPath;
   filename: string;
   context: Context;
   helpers: LoopHelpers<Context>;
@@ -51,6 +50,18 @@ function processElement<Context>(
 ): void {
   annotateChildrenSource(elementPath, filename, helpers);
   annotateImgSource(elementPath, filename, helpers);
+  annotatePropSources(elementPath, filename, helpers, (expressionPath) => {
+    const access = extractPropertyAccess(expressionPath.node);
+    if (!access) return null;
+
+    const resolved = resolveBindingElementPaths(
+      expressionPath,
+      access,
+      filename,
+      helpers,
+    );
+    return resolved ? { ...resolved, perItem: false } : null;
+  });
 }
 
 function annotateChildrenSource<Context>(
@@ -74,23 +85,21 @@ function annotateChildrenSource<Context>(
     const access = extractPropertyAccess(expressionPath.node);
     if (!access) continue;
 
-    const elementPaths = resolveBindingElementPaths(
+    const resolved = resolveBindingElementPaths(
       expressionPath as NodePath<Expression>,
       access,
+      filename,
+      helpers,
     );
-    if (!elementPaths) continue;
+    if (!resolved) continue;
 
-    const value = buildLocationAttributeValue({
-      filename,
-      elementPaths,
-      segments: access.segments,
-    });
+    const value = buildLocationAttributeValue(resolved);
 
     if (!value) continue;
 
     helpers.setOrUpdateAttribute(
       elementPath.node.openingElement,
-      "data-children-source",
+      helpers.attributeNames.childrenSource,
       value,
     );
     return;
@@ -103,8 +112,8 @@ function annotateImgSource<Context>(
   helpers: LoopHelpers<Context>,
 ): void {
   const openingElement = elementPath.node.openingElement;
-  if (!t.isJSXIdentifier(openingElement.name)) return;
-  if (openingElement.name.name !== "img") return;
+  if (helpers.isReactComponent(elementPath.node)) return;
+  if (getHostTagName(openingElement.name) !== "img") return;
 
   const attributePaths = elementPath
     .get("openingElement")
@@ -126,41 +135,61 @@ function annotateImgSource<Context>(
     const access = extractPropertyAccess(expressionPath.node);
     if (!access) continue;
 
-    const elementPaths = resolveBindingElementPaths(
+    const resolved = resolveBindingElementPaths(
       expressionPath as NodePath<Expression>,
       access,
+      filename,
+      helpers,
     );
-    if (!elementPaths) continue;
+    if (!resolved) continue;
 
-    const sourceValue = buildLocationAttributeValue({
-      filename,
-      elementPaths,
-      segments: access.segments,
-    });
+    const sourceValue = buildLocationAttributeValue(resolved);
 
     if (!sourceValue) continue;
 
     helpers.setOrUpdateAttribute(
       openingElement,
-      "data-img-source",
+      helpers.attributeNames.imgSource,
       sourceValue,
     );
     return;
   }
 }
 
-function resolveBindingElementPaths(
+// Initializers an expression reads from, the property path within them and
+// the file they are in
+type ResolvedBinding = {
+  filename: string;
+  elementPaths: NodePath<Expression | SpreadElement | null>[];
+  segments: PropertyAccessSegment[];
+};
+
+function resolveBindingElementPaths<Context>(
   expressionPath: NodePath<Expression>,
   access: PropertyAccess,
-): NodePath<Expression | SpreadElement | null>[] | null {
+  filename: string,
+  helpers: LoopHelpers<Context>,
+): ResolvedBinding | null {
   const binding = expressionPath.scope.getBinding(access.baseName);
   if (!binding) return null;
+
+  if (binding.kind === "module") {
+    const imported = helpers.resolveImportedBinding?.(binding, access.segments);
+    if (!imported) return null;
+
+    return {
+      filename: imported.filename,
+      elementPaths: [imported.valuePath],
+      segments: imported.segments,
+    };
+  }
+
   if (binding.constantViolations.length > 0) return null;
 
   const initPaths = getBindingInitializerPaths(binding);
   if (!initPaths) return null;
 
-  return initPaths;
+  return { filename, elementPaths: initPaths, segments: access.segments };
 }
 
 function getBindingInitializerPaths(
@@ -0,0 +1,58 @@
+import { describe, test, expect } from "vitest";
+import { transform, getAttributes } from "./test-helpers";
+
+// Test fixtures
+const anonymousFunctionInput = `export default function () {
+  return (
+    <main>
+      <h1>About us</h1>
+    </main>
+  );
+}`;
+
+const anonymousArrowInput = `export default () => <main>Home</main>;`;
+
+const wrappedNamedFunctionInput = `export default memo(function Pricing() {
+  return <section>Pricing</section>;
+});`;
+
+const namedFunctionInput = `export default function Contact() {
+  return <form>Contact</form>;
+}`;
+
+describe("Anonymous Default Exports", () => {
+  test("should infer the component name from the filename", () => {
+    const output = transform(anonymousFunctionInput, "pages/about-us.tsx");
+    const mainAttrs = getAttributes(output, "main");
+
+    expect(mainAttrs["data-component-file"]).toBe("pages/about-us.tsx");
+    expect(mainAttrs["data-component-name"]).toBe("AboutUs");
+    expect(mainAttrs["data-component-name-inferred"]).toBe("true");
+    expect(output).toContain(`<h1 data-rendered-by="pages/about-us.tsx"`);
+  });
+
+  test("should use the parent directory name for index files", () => {
+    const output = transform(anonymousArrowInput, "src/pages/home/index.tsx");
+    const mainAttrs = getAttributes(output, "main");
+
+    expect(mainAttrs["data-component-name"]).toBe("Home");
+    expect(mainAttrs["data-component-name-inferred"]).toBe("true");
+  });
+
+  test("should prefer the inner function name of wrapped default exports", () => {
+    const output = transform(wrappedNamedFunctionInput, "pages/pricing.tsx");
+    const sectionAttrs = getAttributes(output, "section");
+
+    expect(sectionAttrs["data-component-name"]).toBe("Pricing");
+    expect(sectionAttrs["data-component-name-inferred"]).toBeUndefined();
+  });
+
+  test("should not mark named default exports as inferred", () => {
+    const output = transform(namedFunctionInput, "pages/contact.tsx");
+
+    expect(getAttributes(output, "form")["data-component-name"]).toBe(
+      "Contact",
+    );
+    expect(output).not.toContain("data-component-name-inferred");
+  });
+});
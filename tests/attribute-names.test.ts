@@ -0,0 +1,90 @@
+import { describe, test, expect } from "vitest";
+import { transformSync } from "@babel/core";
+import { attachBridge, detachMetadata } from "../src/index";
+import { getAttributes, transform } from "./test-helpers";
+
+// Test fixtures
+const heroInput = `function Hero() {
+  return (
+    <section>
+      <h1>Welcome</h1>
+      <Button>Start</Button>
+    </section>
+  );
+}`;
+
+const faqsInput = `const faqs = [{ id: "a", question: "Why?" }];
+
+function Faqs() {
+  return (
+    <ul>
+      {faqs.map((faq, index) => (
+        <li key={faq.id}>{faq.question}</li>
+      ))}
+    </ul>
+  );
+}`;
+
+function runPlugin(code: string, plugin: unknown, options: object) {
+  return (
+    transformSync(code, {
+      plugins: [[plugin, { filename: "src/Hero.jsx", ...options }]],
+      parserOpts: { plugins: ["jsx"] },
+    })?.code || ""
+  );
+}
+
+describe("Attribute Names", () => {
+  test("should use a custom attribute prefix", () => {
+    const output = transform(heroInput, "src/Hero.jsx", {
+      attributePrefix: "data-acme-",
+    });
+
+    const sectionAttributes = getAttributes(output, "section");
+    expect(sectionAttributes["data-acme-component-file"]).toBe("src/Hero.jsx");
+    expect(sectionAttributes["data-acme-component-name"]).toBe("Hero");
+    expect(sectionAttributes["data-acme-editor-id"]).toMatch(/^[a-f0-9]{12}$/);
+    expect(getAttributes(output, "h1")["data-acme-rendered-by"]).toBe(
+      "src/Hero.jsx",
+    );
+    expect(output).not.toContain("data-editor-id");
+    expect(output).not.toContain("data-rendered-by");
+  });
+
+  test("should let individual names override the prefix", () => {
+    const output = transform(faqsInput, "src/Faqs.jsx", {
+      attributePrefix: "data-acme-",
+      attributeNames: { editorId: "data-node", childrenSource: "data-src" },
+    });
+
+    expect(output).toMatch(/<ul[^>]*data-node="[a-f0-9]{12}"/);
+    expect(output).toMatch(/<li[^>]*data-acme-editor-instance=\{faq\.id\}/);
+    expect(output).toMatch(/<li[^>]*data-src='\{/);
+    expect(output).not.toContain("data-acme-editor-id");
+  });
+
+  test("should strip custom attributes when detaching", () => {
+    const annotated = transform(heroInput, "src/Hero.jsx", {
+      attributePrefix: "data-acme-",
+    });
+    const detached = runPlugin(annotated, detachMetadata, {
+      attributePrefix: "data-acme-",
+    });
+
+    expect(detached).not.toContain("data-acme-");
+  });
+
+  test("should pass custom names to the live preview bridge", () => {
+    const output = runPlugin(
+      `<div data-node="abc123" data-editor-id="ignored">Hi</div>;`,
+      attachBridge,
+      { attributeNames: { editorId: "data-node" } },
+    );
+
+    expect(output).toContain(
+      `<LivePreviewBridge editorId="abc123" messageType="ELEMENT_UPDATE" attributeNames={{
+  editorId: "data-node"
+}}>`,
+    );
+  });
+});
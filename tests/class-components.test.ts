@@ -0,0 +1,82 @@
+import { describe, test, expect } from "vitest";
+import { transform, getAttributes } from "./test-helpers";
+
+// Test fixtures
+const classComponentInput = `class Dashboard extends React.Component {
+  handleClick() {}
+
+  render() {
+    return (
+      <div className="dashboard">
+        <h1>Dashboard</h1>
+        <Chart />
+      </div>
+    );
+  }
+}`;
+
+const pureComponentExpressionInput = `const Sidebar = class extends PureComponent {
+  render() {
+    return <aside><nav>Links</nav></aside>;
+  }
+};`;
+
+const classStaticContentInput = `const links = [
+  { label: "Home" },
+  { label: "Settings" },
+];
+
+class Menu extends Component {
+  render() {
+    return (
+      <ul>
+        {links.map((link, index) => (
+          <li key={index}>{link.label}</li>
+        ))}
+      </ul>
+    );
+  }
+}`;
+
+const plainClassInput = `class Store {
+  render() {
+    return <div>Not a component</div>;
+  }
+}`;
+
+describe("Class Components", () => {
+  test("should annotate render() returns of class declarations", () => {
+    const output = transform(classComponentInput, "src/Dashboard.jsx");
+
+    const divAttrs = getAttributes(output, "div");
+    expect(divAttrs["data-component-file"]).toBe("src/Dashboard.jsx");
+    expect(divAttrs["data-component-name"]).toBe("Dashboard");
+    expect(divAttrs["data-editor-id"]).toMatch(/^[a-f0-9]{12}$/);
+
+    expect(output).toContain(`<h1 data-rendered-by="src/Dashboard.jsx"`);
+    expect(output).not.toContain("<Chart data-rendered-by");
+  });
+
+  test("should name class expressions after their binding", () => {
+    const output = transform(pureComponentExpressionInput, "src/Sidebar.jsx");
+
+    expect(getAttributes(output, "aside")["data-component-name"]).toBe(
+      "Sidebar",
+    );
+    expect(output).toContain(`<nav data-rendered-by="src/Sidebar.jsx"`);
+  });
+
+  test("should attach loop metadata inside render()", () => {
+    const output = transform(classStaticContentInput, "src/Menu.jsx");
+
+    expect(output).toMatch(
+      /<li[^>]*data-children-source=\{\s*\[[^\]]*\\"file\\":\\"src\/Menu\.jsx\\"/,
+    );
+  });
+
+  test("should ignore classes that do not extend a base class", () => {
+    const output = transform(plainClassInput, "src/Store.jsx");
+
+    expect(output).not.toContain("data-component-name");
+  });
+});
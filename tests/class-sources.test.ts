@@ -0,0 +1,96 @@
+import { describe, test, expect } from "vitest";
+import { transform } from "./test-helpers";
+
+function getClassSources(output: string, tagName: string) {
+  const match = output.match(
+    new RegExp(`<${tagName}[^>]*data-class-sources='([^']*)'`),
+  );
+  return match ? JSON.parse(match[1]) : null;
+}
+
+describe("Class Sources", () => {
+  test("should locate string and template literal classes", () => {
+    const output = transform(
+      `function Card({ active }) {
+  return (
+    <div className="p-4 flex">
+      <p className={\`text-sm \${active ? "font-bold" : "font-normal"} mt-2\`}>Hi</p>
+      <Badge className="ml-2" />
+    </div>
+  );
+}`,
+      "src/Card.jsx",
+    );
+
+    expect(getClassSources(output, "div")).toEqual([
+      { file: "src/Card.jsx", start: "3:20", end: "3:30" },
+    ]);
+    expect(getClassSources(output, "p")).toEqual([
+      { file: "src/Card.jsx", start: "4:22", end: "4:30" },
+      { file: "src/Card.jsx", start: "4:69", end: "4:74" },
+      { file: "src/Card.jsx", start: "4:41", end: "4:52", conditional: true },
+      { file: "src/Card.jsx", start: "4:55", end: "4:68", conditional: true },
+    ]);
+    expect(output).not.toMatch(/<Badge[^>]*data-class-sources/);
+  });
+
+  test("should follow clsx-style calls and constant bindings", () => {
+    const output = transform(
+      `const base = "rounded px-4";
+function Button({ active, className }) {
+  return (
+    <button className={cn(base, { "bg-blue-500": active, hidden: !active }, active && "ring", className)}>
+      Go
+    </button>
+  );
+}`,
+      "src/Button.jsx",
+    );
+
+    expect(getClassSources(output, "button")).toEqual([
+      { file: "src/Button.jsx", start: "1:14", end: "1:28" },
+      { file: "src/Button.jsx", start: "4:35", end: "4:48", conditional: true },
+      { file: "src/Button.jsx", start: "4:58", end: "4:64", conditional: true },
+      { file: "src/Button.jsx", start: "4:87", end: "4:93", conditional: true },
+    ]);
+  });
+
+  test("should collect base and variant classes from cva", () => {
+    const output = transform(
+      `import { cva } from "class-variance-authority";
+const button = cva("inline-flex", {
+  variants: { size: { sm: "text-sm", lg: "text-lg" } },
+  compoundVariants: [{ size: "lg", class: "font-bold" }],
+  defaultVariants: { size: "sm" },
+});
+function Button({ size }) {
+  return <button className={button({ size })}>Go</button>;
+}`,
+      "src/Button.jsx",
+    );
+
+    expect(getClassSources(output, "button")).toEqual([
+      { file: "src/Button.jsx", start: "2:20", end: "2:33" },
+      { file: "src/Button.jsx", start: "3:27", end: "3:36", conditional: true },
+      { file: "src/Button.jsx", start: "3:42", end: "3:51", conditional: true },
+      { file: "src/Button.jsx", start: "4:43", end: "4:54", conditional: true },
+    ]);
+  });
+
+  test("should only read configured class name functions", () => {
+    const input = `function Card({ active }) {
+  return <div className={merge("p-4", active && "ring")} />;
+}`;
+
+    expect(getClassSources(transform(input, "src/Card.jsx"), "div")).toBeNull();
+    expect(
+      getClassSources(
+        transform(input, "src/Card.jsx", { classNameFunctions: ["merge"] }),
+        "div",
+      ),
+    ).toEqual([
+      { file: "src/Card.jsx", start: "2:32", end: "2:37" },
+      { file: "src/Card.jsx", start: "2:49", end: "2:55", conditional: true },
+    ]);
+  });
+});
@@ -0,0 +1,161 @@
+import { afterEach, describe, test, expect } from "vitest";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { transformSync } from "@babel/core";
+import { attachBridge, detachMetadata } from "../src/index";
+import {
+  getMetadataTableEntry,
+  type MetadataTables,
+} from "../src/metadataTable";
+import { getAttributes, transform } from "./test-helpers";
+
+// Test fixtures
+const faqsInput = `import React from "react";
+
+const faqs = [{ id: "a", question: "Why?" }];
+
+function Faqs() {
+  return (
+    <section>
+      <h1>Questions</h1>
+      <ul>
+        {faqs.map((faq) => (
+          <li key={faq.id}>{faq.question}</li>
+        ))}
+      </ul>
+    </section>
+  );
+}`;
+
+function runPlugin(code: string, plugin: unknown, options: object = {}) {
+  return (
+    transformSync(code, {
+      plugins: [[plugin, { filename: "src/Faqs.jsx", ...options }]],
+      parserOpts: { plugins: ["jsx"] },
+    })?.code || ""
+  );
+}
+
+const outputDirs: string[] = [];
+
+function getSectionId(output: string): string {
+  return getAttributes(output, "section")["data-editor-id"];
+}
+
+describe("Compact Metadata Encoding", () => {
+  afterEach(() => {
+    for (const outputDir of outputDirs.splice(0)) {
+      rmSync(outputDir, { recursive: true, force: true });
+    }
+  });
+
+  test("should keep only the editor ID on elements", () => {
+    const output = transform(faqsInput, "src/Faqs.jsx", {
+      metadataEncoding: "compact",
+    });
+
+    expect(Object.keys(getAttributes(output, "section"))).toEqual([
+      "data-editor-id",
+    ]);
+    expect(Object.keys(getAttributes(output, "h1"))).toEqual([
+      "data-editor-id",
+    ]);
+    expect(output).toMatch(/<li[^>]*data-editor-instance=\{faq\.id\}/);
+    expect(output).not.toContain("data-component-file");
+    expect(output).not.toContain("data-rendered-by");
+    expect(output).not.toContain("data-children-source");
+  });
+
+  test("should register a lookup table when the module loads", () => {
+    const output = transform(faqsInput, "src/Faqs.jsx", {
+      metadataEncoding: "compact",
+    });
+
+    expect(output).toMatch(
+      /^import React from "react";\nglobalThis\.__editorMetadata = Object\.assign\(globalThis\.__editorMetadata \|\| \{\}, \{/,
+    );
+
+    const statement = output.match(/^globalThis[\s\S]*?^\}\);/m)?.[0];
+    const tables = new Function(
+      "globalThis",
+      `${statement}\nreturn globalThis.__editorMetadata;`,
+    )({ __editorMetadata: { "src/Other.jsx": {} } }) as MetadataTables;
+    expect(Object.keys(tables)).toEqual(["src/Other.jsx", "src/Faqs.jsx"]);
+
+    const table = tables["src/Faqs.jsx"];
+    expect(table[getSectionId(output)]).toEqual({
+      file: "src/Faqs.jsx",
+      component: "Faqs",
+      root: true,
+    });
+
+    const liEntry = Object.values(table).find((entry) => entry.childrenSource);
+    expect(liEntry?.file).toBe("src/Faqs.jsx");
+    expect(liEntry?.root).toBeUndefined();
+    expect(liEntry?.childrenSource).toEqual({
+      file: "src/Faqs.jsx",
+      start: "3:36",
+      end: "3:42",
+    });
+  });
+
+  test("should keep IDs that repeat across files apart", () => {
+    const globals = globalThis as Record<string, unknown>;
+    const hero = { file: "src/Hero.jsx", component: "Hero" };
+    const card = { file: "src/Card.jsx", component: "Card" };
+    globals.__editorMetadata = {
+      "src/Hero.jsx": { "App/div#0": hero },
+      "src/Card.jsx": { "App/div#0": card, "App/p#0": card },
+    };
+
+    try {
+      expect(getMetadataTableEntry("App/div#0", "src/Hero.jsx")).toBe(hero);
+      expect(getMetadataTableEntry("App/div#0", "src/Card.jsx")).toBe(card);
+      expect(getMetadataTableEntry("App/div#0")).toBeNull();
+      expect(getMetadataTableEntry("App/p#0")).toBe(card);
+    } finally {
+      delete globals.__editorMetadata;
+    }
+  });
+
+  test("should leave the lookup table to the manifest", () => {
+    const outputDir = mkdtempSync(join(tmpdir(), "compact-metadata-"));
+    outputDirs.push(outputDir);
+    const output = transform(faqsInput, "src/Faqs.jsx", {
+      metadataEncoding: "compact",
+      metadataTable: "manifest",
+      manifest: { outputDir },
+    });
+
+    expect(output).not.toContain("__editorMetadata");
+    const manifest = JSON.parse(
+      readFileSync(join(outputDir, "src/Faqs.jsx.editor-ids.json"), "utf8"),
+    );
+    expect(manifest[getSectionId(output)].component).toBe("Faqs");
+
+    expect(() =>
+      transform(faqsInput, "src/Faqs.jsx", {
+        metadataEncoding: "compact",
+        metadataTable: "manifest",
+      }),
+    ).toThrow('metadataTable: "manifest" requires the manifest option');
+  });
+
+  test("should be understood by the bridge and detach plugins", () => {
+    const compact = transform(faqsInput, "src/Faqs.jsx", {
+      metadataEncoding: "compact",
+    });
+
+    const bridged = runPlugin(compact, attachBridge, {
+      metadataEncoding: "compact",
+    });
+    expect(bridged).toContain(
+      `<LivePreviewBridge editorId="${getSectionId(compact)}" messageType="ELEMENT_UPDATE" filePath="src/Faqs.jsx">`,
+    );
+
+    const detached = runPlugin(compact, detachMetadata);
+    expect(detached).not.toContain("__editorMetadata");
+    expect(detached).not.toContain("data-editor-");
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, test, expect } from "vitest";
+import { transform, getAttributes } from "./test-helpers";
+
+// Test fixtures
+const memoArrowInput = `const Card = memo(() => <div className="card">Content</div>);`;
+
+const forwardRefInput = `const Input = React.forwardRef((props, ref) => {
+  return (
+    <label>
+      <input ref={ref} {...props} />
+    </label>
+  );
+});`;
+
+const nestedWrappersInput = `const Profile = observer(memo(function ProfileInner() {
+  return <section><h2>Profile</h2></section>;
+}));`;
+
+const curriedWrapperInput = `const Panel = withTheme(theme)(() => <aside>Panel</aside>);`;
+
+describe("Component Wrappers", () => {
+  test("should annotate components wrapped in memo", () => {
+    const output = transform(memoArrowInput, "src/Card.jsx");
+    const divAttrs = getAttributes(output, "div");
+
+    expect(divAttrs["data-component-file"]).toBe("src/Card.jsx");
+    expect(divAttrs["data-component-name"]).toBe("Card");
+    expect(divAttrs["data-editor-id"]).toMatch(/^[a-f0-9]{12}$/);
+  });
+
+  test("should annotate components wrapped in React.forwardRef", () => {
+    const output = transform(forwardRefInput, "src/Input.jsx");
+
+    expect(getAttributes(output, "label")["data-component-name"]).toBe(
+      "Input",
+    );
+    expect(getAttributes(output, "input")["data-rendered-by"]).toBe(
+      "src/Input.jsx",
+    );
+  });
+
+  test("should use the outer binding name for nested wrappers", () => {
+    const output = transform(nestedWrappersInput, "src/Profile.jsx");
+
+    expect(getAttributes(output, "section")["data-component-name"]).toBe(
+      "Profile",
+    );
+    expect(getAttributes(output, "h2")["data-rendered-by"]).toBe(
+      "src/Profile.jsx",
+    );
+  });
+
+  test("should only see through configured wrappers", () => {
+    const defaultOutput = transform(curriedWrapperInput, "src/Panel.jsx");
+    expect(defaultOutput).not.toContain("data-component-name");
+
+    const configuredOutput = transform(curriedWrapperInput, "src/Panel.jsx", {
+      componentWrappers: ["withTheme"],
+    });
+    expect(getAttributes(configuredOutput, "aside")["data-component-name"]).toBe(
+      "Panel",
+    );
+  });
+});
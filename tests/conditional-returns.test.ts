@@ -0,0 +1,64 @@
+import { describe, test, expect } from "vitest";
+import { transform, getAttributes } from "./test-helpers";
+
+// Test fixtures
+const conditionalReturnInput = `function Feed({ loading }) {
+  return loading ? (
+    <div className="spinner" />
+  ) : (
+    <section>
+      <h2>Latest posts</h2>
+    </section>
+  );
+}`;
+
+const logicalArrowInput = `const Greeting = ({ user }) => user && <p>Hello there</p>;`;
+
+const nestedWrappersInput = `function Banner({ variant, message }) {
+  return (variant === "alert"
+    ? <aside>{message}</aside>
+    : (message ?? <em>Nothing to show</em>)) as JSX.Element;
+}`;
+
+const sequenceReturnInput = `function Logger() {
+  return (track("render"), <footer>Footer</footer>);
+}`;
+
+describe("Conditional Return Values", () => {
+  test("should annotate both branches of a conditional return", () => {
+    const output = transform(conditionalReturnInput, "src/Feed.jsx");
+
+    const divAttrs = getAttributes(output, "div");
+    expect(divAttrs["data-component-file"]).toBe("src/Feed.jsx");
+    expect(divAttrs["data-component-name"]).toBe("Feed");
+
+    const sectionAttrs = getAttributes(output, "section");
+    expect(sectionAttrs["data-component-name"]).toBe("Feed");
+    expect(output).toContain(`<h2 data-rendered-by="src/Feed.jsx"`);
+  });
+
+  test("should annotate the JSX operand of a logical expression body", () => {
+    const output = transform(logicalArrowInput, "src/Greeting.jsx");
+
+    expect(getAttributes(output, "p")["data-component-name"]).toBe(
+      "Greeting",
+    );
+  });
+
+  test("should see through casts, parentheses and nullish fallbacks", () => {
+    const output = transform(nestedWrappersInput, "src/Banner.tsx");
+
+    expect(getAttributes(output, "aside")["data-component-name"]).toBe(
+      "Banner",
+    );
+    expect(getAttributes(output, "em")["data-component-name"]).toBe("Banner");
+  });
+
+  test("should annotate the last expression of a sequence", () => {
+    const output = transform(sequenceReturnInput, "src/Logger.jsx");
+
+    expect(getAttributes(output, "footer")["data-component-name"]).toBe(
+      "Logger",
+    );
+  });
+});
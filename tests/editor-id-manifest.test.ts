@@ -0,0 +1,145 @@
+import { afterEach, describe, test, expect } from "vitest";
+import { existsSync, mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { transform } from "./test-helpers";
+import type { EditorIdManifest } from "../src/index";
+
+// Test fixtures
+const heroInput = `function Hero() {
+  return (
+    <section>
+      <h1>Welcome</h1>
+      <Button>Start</Button>
+    </section>
+  );
+}`;
+
+const galleryInput = `const images = [
+  { src: "/a.png", caption: "A" },
+  { src: "/b.png", caption: "B" },
+];
+
+function Gallery() {
+  return (
+    <ul>
+      {images.map((image, index) => (
+        <li key={index}>
+          <img src={image.src} />
+          <span>{image.caption}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}`;
+
+const outputDirs: string[] = [];
+
+function createOutputDir(): string {
+  const outputDir = mkdtempSync(join(tmpdir(), "editor-id-manifest-"));
+  outputDirs.push(outputDir);
+  return outputDir;
+}
+
+function readManifest(manifestPath: string): EditorIdManifest {
+  return JSON.parse(readFileSync(manifestPath, "utf8"));
+}
+
+function findEntry(manifest: EditorIdManifest, tag: string) {
+  const found = Object.entries(manifest).find(([, entry]) => entry.tag === tag);
+  if (!found) throw new Error(`No manifest entry for <${tag}>`);
+  return { id: found[0], ...found[1] };
+}
+
+describe("Editor ID Manifest", () => {
+  afterEach(() => {
+    for (const outputDir of outputDirs.splice(0)) {
+      rmSync(outputDir, { recursive: true, force: true });
+    }
+  });
+
+  test("should write a manifest per source file", () => {
+    const outputDir = createOutputDir();
+    const output = transform(heroInput, "src/Hero.jsx", {
+      manifest: { outputDir },
+    });
+
+    const manifestPath = join(outputDir, "src/Hero.jsx.editor-ids.json");
+    expect(existsSync(manifestPath)).toBe(true);
+    const manifest = readManifest(manifestPath);
+
+    const section = findEntry(manifest, "section");
+    const heading = findEntry(manifest, "h1");
+    const span = findEntry(manifest, "span");
+
+    expect(output).toContain(`data-editor-id="${section.id}"`);
+    expect(section).toMatchObject({
+      file: "src/Hero.jsx",
+      component: "Hero",
+      start: "3:5",
+      end: "6:15",
+      parentId: null,
+    });
+    expect(heading).toMatchObject({
+      start: "4:7",
+      end: "4:23",
+      parentId: section.id,
+    });
+    // The wrapper span around "Start" spans the wrapped text
+    expect(span.start).toBe("5:15");
+    expect(Object.keys(manifest)).toHaveLength(3);
+  });
+
+  test("should include children and image source locations", () => {
+    const outputDir = createOutputDir();
+    transform(galleryInput, "src/Gallery.jsx", { manifest: { outputDir } });
+
+    const manifest = readManifest(
+      join(outputDir, "src/Gallery.jsx.editor-ids.json"),
+    );
+    const item = findEntry(manifest, "li");
+    const image = findEntry(manifest, "img");
+    const caption = findEntry(manifest, "span");
+
+    expect(image.parentId).toBe(item.id);
+    expect(image.imgSource).toEqual([
+      { file: "src/Gallery.jsx", start: "2:10", end: "2:18" },
+      { file: "src/Gallery.jsx", start: "3:10", end: "3:18" },
+    ]);
+    expect(caption.childrenSource).toHaveLength(2);
+  });
+
+  test("should aggregate entries from several files into one manifest", () => {
+    const outputFile = join(createOutputDir(), "editor-ids.json");
+    transform(heroInput, "src/Hero.jsx", { manifest: { outputFile } });
+    transform(galleryInput, "src/Gallery.jsx", { manifest: { outputFile } });
+    // Re-transforming a file replaces its entries
+    transform(heroInput, "src/Hero.jsx", { manifest: { outputFile } });
+
+    const files = Object.values(readManifest(outputFile)).map(
+      (entry) => entry.file,
+    );
+    expect(files.filter((file) => file === "src/Hero.jsx")).toHaveLength(3);
+    expect(files.filter((file) => file === "src/Gallery.jsx")).toHaveLength(4);
+  });
+
+  test("should describe createElement calls annotated in place", () => {
+    const outputDir = createOutputDir();
+    transform(
+      `function Card() {
+  return React.createElement("div", null, React.createElement("h2", null, "Title"));
+}`,
+      "src/Card.js",
+      { manifest: { outputDir }, elementFactoryCalls: "annotate" },
+    );
+
+    const manifest = readManifest(
+      join(outputDir, "src/Card.js.editor-ids.json"),
+    );
+    const card = findEntry(manifest, "div");
+    expect(findEntry(manifest, "h2")).toMatchObject({
+      component: "Card",
+      parentId: card.id,
+    });
+  });
+});
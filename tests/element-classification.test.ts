@@ -0,0 +1,103 @@
+import { describe, test, expect } from "vitest";
+import { transformSync } from "@babel/core";
+import { transform, getAttributes } from "./test-helpers";
+import { attachBridge } from "../src/index";
+
+// Test fixtures
+const mixedElementsInput = `function Toolbar() {
+  return (
+    <div>
+      <my-widget>Custom</my-widget>
+      <icon name="save" />
+      <Box>Content</Box>
+    </div>
+  );
+}`;
+
+describe("Element Classification", () => {
+  test("should treat custom elements as host elements by default", () => {
+    const output = transform(mixedElementsInput, "src/Toolbar.jsx");
+
+    expect(getAttributes(output, "my-widget")["data-rendered-by"]).toBe(
+      "src/Toolbar.jsx",
+    );
+    expect(getAttributes(output, "Box")["data-rendered-by"]).toBeUndefined();
+  });
+
+  test("should honour component and host element lists", () => {
+    const output = transform(mixedElementsInput, "src/Toolbar.jsx", {
+      elementClassification: {
+        components: ["icon"],
+        hostElements: [/^Box$/],
+      },
+    });
+
+    expect(getAttributes(output, "icon")["data-rendered-by"]).toBeUndefined();
+    expect(getAttributes(output, "Box")["data-rendered-by"]).toBe(
+      "src/Toolbar.jsx",
+    );
+    // Text inside a host element is no longer wrapped
+    expect(output).not.toContain("<span");
+  });
+
+  test("should match global and sticky patterns on every tag", () => {
+    const output = transform(
+      `function Toolbar() {
+  return (
+    <div>
+      <Box>First</Box>
+      <Box>Second</Box>
+    </div>
+  );
+}`,
+      "src/Toolbar.jsx",
+      { elementClassification: { hostElements: [/^Box$/g, /^Stack$/y] } },
+    );
+
+    expect(
+      output.match(/<Box data-rendered-by="src\/Toolbar.jsx"/g),
+    ).toHaveLength(2);
+  });
+
+  test("should let a classify callback override the default", () => {
+    const output = transform(mixedElementsInput, "src/Toolbar.jsx", {
+      elementClassification: {
+        classify: (tagName, defaultKind) =>
+          tagName.includes("-") ? "component" : defaultKind,
+      },
+    });
+
+    expect(
+      getAttributes(output, "my-widget")["data-rendered-by"],
+    ).toBeUndefined();
+    expect(getAttributes(output, "icon")["data-rendered-by"]).toBe(
+      "src/Toolbar.jsx",
+    );
+  });
+
+  test("should apply the same classification in the bridge", () => {
+    const result = transformSync(
+      `<Box data-editor-id="box123">Hi</Box>;
+       <icon data-editor-id="icon456" />;`,
+      {
+        plugins: [
+          [
+            attachBridge,
+            {
+              filename: "src/Toolbar.jsx",
+              elementClassification: {
+                components: ["icon"],
+                hostElements: ["Box"],
+              },
+            },
+          ],
+        ],
+        parserOpts: { plugins: ["jsx"] },
+      },
+    );
+    const output = result?.code || "";
+
+    expect(output).toContain(`<LivePreviewBridge editorId="box123"`);
+    expect(output).not.toContain(`<LivePreviewBridge editorId="icon456"`);
+  });
+});
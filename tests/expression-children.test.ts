@@ -0,0 +1,107 @@
+import { describe, test, expect } from "vitest";
+import { transform } from "./test-helpers";
+
+const wrapped = (expression: string) =>
+  new RegExp(
+    `<span data-rendered-by="src/Card.jsx" data-editor-id="[a-f0-9]{12}">\\{${expression}\\}</span>`,
+  );
+
+describe("Expression Children", () => {
+  test("should wrap member expressions and template literals", () => {
+    const output = transform(
+      `function Card({ t, name, item }) {
+  return (
+    <div>
+      <Title>{t.title}</Title>
+      <Label>{item?.label}</Label>
+      <Greeting>{\`Hello \${name}\`}</Greeting>
+    </div>
+  );
+}`,
+      "src/Card.jsx",
+    );
+
+    expect(output).toMatch(wrapped("t\\.title"));
+    expect(output).toMatch(wrapped("item\\?\\.label"));
+    expect(output).toMatch(wrapped("`Hello \\$\\{name\\}`"));
+  });
+
+  test("should wrap string concatenations", () => {
+    const output = transform(
+      `function Card({ count, first, last }) {
+  return (
+    <div>
+      <Badge>{count + " items"}</Badge>
+      <Name>{first + " " + last}</Name>
+      <Total>{count + 1}</Total>
+    </div>
+  );
+}`,
+      "src/Card.jsx",
+    );
+
+    expect(output).toMatch(wrapped('count \\+ " items"'));
+    expect(output).toMatch(wrapped('first \\+ " " \\+ last'));
+    expect(output).toContain("<Total>{count + 1}</Total>");
+  });
+
+  test("should wrap conditionals whose branches are all text", () => {
+    const output = transform(
+      `function Card({ open, a, b }) {
+  return (
+    <div>
+      <Status>{open ? "Open" : "Closed"}</Status>
+      <Value>{open ? a : b}</Value>
+      <Hint>{open ? "Close me" : null}</Hint>
+    </div>
+  );
+}`,
+      "src/Card.jsx",
+    );
+
+    expect(output).toMatch(wrapped('open \\? "Open" : "Closed"'));
+    expect(output).toMatch(wrapped("open \\? a : b"));
+    expect(output).toContain('<Hint>{open ? "Close me" : null}</Hint>');
+  });
+
+  test("should leave JSX- and function-valued expressions alone", () => {
+    const output = transform(
+      `function Card({ open, items, render }) {
+  return (
+    <div>
+      <Panel>{open ? <Open /> : <Closed />}</Panel>
+      <List>{items.map((item) => <Item key={item.id} />)}</List>
+      <Slot>{() => render()}</Slot>
+      <Spacer>{" "}</Spacer>
+    </div>
+  );
+}`,
+      "src/Card.jsx",
+    );
+
+    expect(output).not.toContain("<span");
+    expect(output).toContain("<Slot>{() => render()}</Slot>");
+  });
+
+  test("should leave passed-through children alone", () => {
+    const output = transform(
+      `function Card(props) {
+  const { children } = props;
+  return (
+    <div>
+      <Button>{props.children}</Button>
+      <Panel>{children}</Panel>
+      <Slot>{props?.["children"]}</Slot>
+      <Title>{props.title}</Title>
+    </div>
+  );
+}`,
+      "src/Card.jsx",
+    );
+
+    expect(output).toContain("<Button>{props.children}</Button>");
+    expect(output).toContain("<Panel>{children}</Panel>");
+    expect(output).toContain('<Slot>{props?.["children"]}</Slot>');
+    expect(output).toMatch(wrapped("props\\.title"));
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, test, expect } from "vitest";
+import { transformSync } from "@babel/core";
+import { extractDataEditorIds, transform } from "./test-helpers";
+
+// Test fixtures
+const createElementInput = `function Card(props) {
+  return React.createElement(
+    "div",
+    { ...props, key: "card", className: "card" },
+    React.createElement("h2", null, "Title"),
+    React.createElement(Button, null, "Save"),
+  );
+}`;
+
+const automaticRuntimeInput = `import { jsx as _jsx, jsxs as _jsxs } from "react/jsx-runtime";
+
+function List({ items }) {
+  return _jsxs("ul", {
+    children: [
+      _jsx("li", { children: "First" }),
+      items.map((item) => _jsx("li", { children: item.label }, item.id)),
+    ],
+  });
+}`;
+
+const existingIdInput = `function Badge() {
+  return React.createElement("span", { "data-editor-id": "badge123" }, "New");
+}`;
+
+const jsxSourceInput = `function Hero() {
+  return (
+    <section className="hero">
+      <h1>Welcome</h1>
+      <Button>Start</Button>
+    </section>
+  );
+}`;
+
+describe("Factory Call Annotation", () => {
+  test("should inject metadata into createElement props objects", () => {
+    const output = transform(createElementInput, "src/Card.js", {
+      elementFactoryCalls: "annotate",
+    });
+
+    expect(output).toContain('React.createElement("div", {');
+    expect(output).toContain("...props");
+    expect(output).toContain('key: "card"');
+    expect(output).toContain('"data-component-file": "src/Card.js"');
+    expect(output).toContain('"data-component-name": "Card"');
+    expect(output).toMatch(
+      /React\.createElement\("h2", \{\s*"data-rendered-by": "src\/Card\.js",\s*"data-editor-id": "[a-f0-9]{12}"\s*\}, "Title"\)/,
+    );
+    // Text passed to components is wrapped in an annotated span call
+    expect(output).toMatch(
+      /React\.createElement\(Button, null, React\.createElement\("span", \{\s*"data-rendered-by": "src\/Card\.js"/,
+    );
+    expect(output).not.toContain("<div");
+  });
+
+  test("should annotate automatic runtime calls at any depth", () => {
+    const output = transform(automaticRuntimeInput, "src/List.js", {
+      elementFactoryCalls: "annotate",
+    });
+
+    expect(output).toMatch(/_jsxs\("ul", \{[^]*"data-component-name": "List"/);
+    const ids = extractDataEditorIds(
+      output.replace(/"data-editor-id": /g, "data-editor-id="),
+    );
+    expect(ids).toHaveLength(3); // ul, literal li, mapped li
+    expect(output).toContain("item.id)");
+    expect(output).not.toContain("<li");
+  });
+
+  test("should preserve existing editor IDs in props", () => {
+    const output = transform(existingIdInput, "src/Badge.js", {
+      elementFactoryCalls: "annotate",
+    });
+
+    expect(output).toContain('"data-editor-id": "badge123"');
+    expect(output.match(/data-editor-id/g)).toHaveLength(1);
+  });
+
+  test("should annotate the output of @babel/preset-react", () => {
+    const compiled = transformSync(jsxSourceInput, {
+      presets: [["@babel/preset-react", { runtime: "automatic" }]],
+    });
+    const output = transform(compiled?.code || "", "src/Hero.js", {
+      elementFactoryCalls: "annotate",
+    });
+
+    expect(output).not.toContain("<section");
+    expect(output).toContain('"data-component-name": "Hero"');
+    expect(output).toMatch(
+      /_jsx\("h1", \{[^}]*"data-rendered-by": "src\/Hero\.js"/,
+    );
+    expect(output).toMatch(/_jsx\(Button, \{\s*children: _jsx\("span"/);
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, test, expect } from "vitest";
+import { extractDataEditorIds, transform, getAttributes } from "./test-helpers";
+
+// Test fixtures
+const reactFragmentInput = `import React from "react";
+
+function List() {
+  return (
+    <React.Fragment>
+      <h2>Items</h2>
+      <ul>
+        <li>Item 1</li>
+      </ul>
+    </React.Fragment>
+  );
+}`;
+
+const aliasedFragmentInput = `import { Fragment as F } from "react";
+
+const Summary = () => (
+  <F>
+    <dt>Term</dt>
+    <dd>Definition</dd>
+  </F>
+);`;
+
+const nestedFragmentInput = `import { Fragment } from "react";
+
+function Card() {
+  return (
+    <div>
+      <Fragment>
+        <p>Body</p>
+        Plain text
+      </Fragment>
+    </div>
+  );
+}`;
+
+const keyedLoopFragmentInput = `import { Fragment } from "react";
+
+function Glossary() {
+  const terms = [
+    { term: "API", definition: "Application programming interface" },
+    { term: "SDK", definition: "Software development kit" },
+  ];
+
+  return (
+    <dl>
+      {terms.map((entry, index) => (
+        <Fragment key={index}>
+          <dt>{entry.term}</dt>
+          <dd>{entry.definition}</dd>
+        </Fragment>
+      ))}
+    </dl>
+  );
+}`;
+
+const localFragmentInput = `function Fragment({ children }) {
+  return <section>{children}</section>;
+}
+
+function Page() {
+  return <Fragment><p>Content</p></Fragment>;
+}`;
+
+describe("Fragment Elements", () => {
+  test("should treat React.Fragment roots like JSX fragments", () => {
+    const output = transform(reactFragmentInput, "src/List.js");
+
+    expect(output).not.toMatch(/<React\.Fragment[^>]*data-component-name/);
+    expect(getAttributes(output, "h2")["data-component-name"]).toBe("List");
+    expect(getAttributes(output, "ul")["data-component-name"]).toBe("List");
+    expect(getAttributes(output, "li")["data-rendered-by"]).toBe("src/List.js");
+  });
+
+  test("should recognise aliased Fragment imports", () => {
+    const output = transform(aliasedFragmentInput, "src/Summary.js");
+
+    expect(output).not.toMatch(/<F [^>]*data-component-name/);
+    expect(getAttributes(output, "dt")["data-component-name"]).toBe("Summary");
+    expect(getAttributes(output, "dd")["data-component-name"]).toBe("Summary");
+  });
+
+  test("should pass through Fragment elements nested in host elements", () => {
+    const output = transform(nestedFragmentInput, "src/Card.js");
+
+    expect(getAttributes(output, "p")["data-rendered-by"]).toBe("src/Card.js");
+    // Text in a fragment inside a host element is not wrapped
+    expect(output).not.toContain("<span");
+    expect(output).not.toMatch(/<Fragment[^>]*data-/);
+  });
+
+  test("should annotate the children of keyed Fragments in loops", () => {
+    const output = transform(keyedLoopFragmentInput, "src/Glossary.js");
+
+    expect(output).toMatch(
+      /<dt[^>]*data-rendered-by="src\/Glossary\.js"[^>]*data-children-source=/,
+    );
+    expect(output).toMatch(
+      /<dd[^>]*data-rendered-by="src\/Glossary\.js"[^>]*data-children-source=/,
+    );
+
+    const ids = extractDataEditorIds(output);
+    expect(ids).toHaveLength(3); // dl, dt, dd
+    expect(new Set(ids).size).toBe(3);
+  });
+
+  test("should not treat locally defined Fragment components as fragments", () => {
+    const output = transform(localFragmentInput, "src/Page.js");
+
+    expect(getAttributes(output, "Fragment")["data-component-name"]).toBe(
+      "Page",
+    );
+  });
+});
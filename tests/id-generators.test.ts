@@ -0,0 +1,74 @@
+import { describe, test, expect } from "vitest";
+import { extractDataEditorIds, transform } from "./test-helpers";
+import type { IdGeneratorInfo } from "../src/index";
+
+// Test fixtures
+const heroInput = `function Hero() {
+  return (
+    <section>
+      <h1>Welcome</h1>
+      <h1>Again</h1>
+      <Button>Start</Button>
+    </section>
+  );
+}`;
+
+describe("ID Generators", () => {
+  test("should hash IDs with sha256", () => {
+    const md5Ids = extractDataEditorIds(transform(heroInput, "src/Hero.jsx"));
+    const sha256Ids = extractDataEditorIds(
+      transform(heroInput, "src/Hero.jsx", { idGenerator: "sha256" }),
+    );
+
+    expect(sha256Ids).toHaveLength(md5Ids.length);
+    for (const id of sha256Ids) {
+      expect(id).toMatch(/^[a-f0-9]{12}$/);
+      expect(md5Ids).not.toContain(id);
+    }
+  });
+
+  test("should generate readable IDs", () => {
+    const output = transform(heroInput, "src/Hero.jsx", {
+      idGenerator: "readable",
+    });
+
+    expect(extractDataEditorIds(output)).toEqual([
+      "Hero/section#0",
+      "Hero/section/h1#0",
+      "Hero/section/h1#1",
+      "Hero/section/Button/span#0",
+    ]);
+  });
+
+  test("should pass element info to a custom generator", () => {
+    const calls: IdGeneratorInfo[] = [];
+    const output = transform(heroInput, "src/Hero.jsx", {
+      idStrategy: "structural",
+      idGenerator: (info) => {
+        calls.push(info);
+        return `${info.tagName}-${info.attempt}`;
+      },
+    });
+
+    expect(extractDataEditorIds(output)).toEqual([
+      "section-0",
+      "h1-0",
+      "h1-1",
+      "span-0",
+    ]);
+    const heading = calls.find((info) => info.segment === "h1:1");
+    expect(heading).toMatchObject({
+      filename: "src/Hero.jsx",
+      componentName: "Hero",
+      elementPath: ["section"],
+      anchorPath: ["section"],
+      label: "Hero/section/h1:1",
+    });
+  });
+
+  test("should fail when a custom generator never produces a free ID", () => {
+    expect(() =>
+      transform(heroInput, "src/Hero.jsx", { idGenerator: () => "same" }),
+    ).toThrow(/colliding editor IDs/);
+  });
+});
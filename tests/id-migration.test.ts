@@ -0,0 +1,151 @@
+import { afterEach, describe, test, expect } from "vitest";
+import { transformSync } from "@babel/core";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { transform } from "./test-helpers";
+import {
+  attachBridge,
+  attachMetadata,
+  type IdMigrationReport,
+  type MetadataOptions,
+} from "../src/index";
+
+// Test fixtures
+const pageInput = `function Page() {
+  return (
+    <section>
+      <h1>Welcome</h1>
+      <p className="lead">Lead</p>
+      <p className="body">Body</p>
+    </section>
+  );
+}`;
+
+function getId(output: string, pattern: string): string {
+  const match = output.match(
+    new RegExp(`<${pattern}[^>]*data-editor-id="([^"]+)"`),
+  );
+  return match?.[1] ?? "";
+}
+
+const outputDirs: string[] = [];
+
+function createBuild() {
+  const outputDir = mkdtempSync(join(tmpdir(), "editor-id-migration-"));
+  outputDirs.push(outputDir);
+  const outputFile = join(outputDir, "editor-ids.json");
+  const reports: IdMigrationReport[] = [];
+  const options: MetadataOptions = {
+    manifest: { outputFile },
+    previousManifest: outputFile,
+    onIdMigration: (report) => reports.push(report),
+  };
+
+  return {
+    reports,
+    run: (code: string) => transform(code, "src/Page.jsx", options),
+    runWithBridge: (code: string) =>
+      transformSync(code, {
+        plugins: [
+          [attachMetadata, { ...options, filename: "src/Page.jsx" }],
+          [attachBridge, { filename: "src/Page.jsx" }],
+        ],
+        parserOpts: { plugins: ["jsx"] },
+      })?.code || "",
+  };
+}
+
+describe("Editor ID Migration", () => {
+  afterEach(() => {
+    for (const outputDir of outputDirs.splice(0)) {
+      rmSync(outputDir, { recursive: true, force: true });
+    }
+  });
+
+  test("should carry IDs over when an element is inserted", () => {
+    const build = createBuild();
+    const before = build.run(pageInput);
+    const after = build.run(
+      pageInput.replace(
+        "<section>",
+        '<section>\n      <img src="/logo.png" />',
+      ),
+    );
+
+    for (const pattern of [
+      "section",
+      "h1",
+      'p className="lead"',
+      'p className="body"',
+    ]) {
+      expect(getId(after, pattern)).toBe(getId(before, pattern));
+    }
+
+    const report = build.reports[1];
+    expect(report?.carriedOver).toHaveLength(4);
+    expect(report?.created).toEqual([getId(after, "img")]);
+    expect(report?.retired).toEqual([]);
+  });
+
+  test("should give bridges in the same pass the migrated IDs", () => {
+    const build = createBuild();
+    const before = build.runWithBridge(pageInput);
+    const after = build.runWithBridge(
+      pageInput.replace(
+        "<section>",
+        '<section>\n      <img src="/logo.png" />',
+      ),
+    );
+
+    const leadId = getId(before, 'p className="lead"');
+    expect(getId(after, 'p className="lead"')).toBe(leadId);
+
+    const bridgedIds = [
+      ...after.matchAll(
+        /<LivePreviewBridge editorId="([^"]+)"[^>]*>\s*<(\w+)[^>]*data-editor-id="([^"]+)"/g,
+      ),
+    ];
+    expect(bridgedIds).toHaveLength(5);
+    for (const [, bridgeId, , elementId] of bridgedIds) {
+      expect(bridgeId).toBe(elementId);
+    }
+  });
+
+  test("should follow reordered elements by text and props", () => {
+    const build = createBuild();
+    const before = build.run(pageInput);
+    const after = build.run(
+      pageInput.replace(
+        /(<p className="lead">Lead<\/p>)(\s*)(<p className="body">Body<\/p>)/,
+        "$3$2$1",
+      ),
+    );
+
+    expect(getId(after, 'p className="lead"')).toBe(
+      getId(before, 'p className="lead"'),
+    );
+    expect(getId(after, 'p className="body"')).toBe(
+      getId(before, 'p className="body"'),
+    );
+  });
+
+  test("should report IDs of removed elements as retired", () => {
+    const build = createBuild();
+    const before = build.run(pageInput);
+    build.run(pageInput.replace('<p className="lead">Lead</p>', ""));
+
+    expect(build.reports[1]?.retired).toEqual([
+      getId(before, 'p className="lead"'),
+    ]);
+    expect(build.reports[1]?.created).toEqual([]);
+  });
+
+  test("should report every ID as created on the first build", () => {
+    const build = createBuild();
+    build.run(pageInput);
+
+    expect(build.reports[0]?.created).toHaveLength(4);
+    expect(build.reports[0]?.carriedOver).toEqual([]);
+  });
+});
@@ -0,0 +1,91 @@
+import { afterEach, describe, test, expect } from "vitest";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { extractDataEditorIds, transform } from "./test-helpers";
+import {
+  createEditorIdRegistry,
+  createFileEditorIdRegistry,
+} from "../src/index";
+
+// Test fixtures
+const twoComponentsInput = `function Header() {
+  return <div data-editor-id="shared123"><span>Header</span></div>;
+}
+
+function Footer() {
+  return <div data-editor-id="shared123"><span>Footer</span></div>;
+}`;
+
+const cardInput = `function Card() {
+  return <div data-editor-id="card123"><p>Card</p></div>;
+}`;
+
+const otherCardInput = `function OtherCard() {
+  return <div data-editor-id="card123"><p>Other</p></div>;
+}`;
+
+const registryDirs: string[] = [];
+
+function createRegistryDir(): string {
+  const registryDir = mkdtempSync(join(tmpdir(), "editor-ids-"));
+  registryDirs.push(registryDir);
+  return registryDir;
+}
+
+describe("Editor ID Uniqueness", () => {
+  afterEach(() => {
+    for (const registryDir of registryDirs.splice(0)) {
+      rmSync(registryDir, { recursive: true, force: true });
+    }
+  });
+
+  test("should keep IDs unique across components in the same file", () => {
+    const output = transform(twoComponentsInput, "src/Layout.jsx");
+    const ids = extractDataEditorIds(output);
+
+    expect(ids).toHaveLength(4);
+    expect(new Set(ids).size).toBe(4);
+    expect(ids.filter((id) => id === "shared123")).toHaveLength(1);
+  });
+
+  test("should resolve collisions across files with a shared registry", () => {
+    const idRegistry = createEditorIdRegistry();
+    const cardIds = extractDataEditorIds(
+      transform(cardInput, "src/Card.jsx", { idRegistry }),
+    );
+    const otherIds = extractDataEditorIds(
+      transform(otherCardInput, "src/OtherCard.jsx", { idRegistry }),
+    );
+
+    expect(cardIds).toContain("card123");
+    expect(otherIds).not.toContain("card123");
+    expect(idRegistry.getOwner("card123")).toBe("src/Card.jsx");
+    for (const id of otherIds) {
+      expect(idRegistry.getOwner(id)).toBe("src/OtherCard.jsx");
+    }
+  });
+
+  test("should keep a file's IDs when it is transformed again", () => {
+    const idRegistry = createEditorIdRegistry();
+    const first = transform(cardInput, "src/Card.jsx", { idRegistry });
+    const second = transform(cardInput, "src/Card.jsx", { idRegistry });
+
+    expect(extractDataEditorIds(second)).toEqual(extractDataEditorIds(first));
+  });
+
+  test("should persist ID ownership to a JSON registry file", () => {
+    const registryPath = join(createRegistryDir(), "editor-ids.json");
+
+    transform(cardInput, "src/Card.jsx", { idRegistry: registryPath });
+    const saved = JSON.parse(readFileSync(registryPath, "utf8"));
+    expect(saved.card123).toBe("src/Card.jsx");
+
+    const otherIds = extractDataEditorIds(
+      transform(otherCardInput, "src/OtherCard.jsx", {
+        idRegistry: createFileEditorIdRegistry(registryPath),
+      }),
+    );
+    expect(otherIds).not.toContain("card123");
+  });
+});
@@ -0,0 +1,150 @@
+import { afterEach, describe, test, expect } from "vitest";
+import {
+  mkdirSync,
+  mkdtempSync,
+  rmSync,
+  utimesSync,
+  writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { transform } from "./test-helpers";
+
+const projectRoots: string[] = [];
+
+function createProject(files: Record<string, string>): string {
+  const root = mkdtempSync(join(tmpdir(), "imported-content-"));
+  projectRoots.push(root);
+  for (const [file, contents] of Object.entries(files)) {
+    const filePath = join(root, file);
+    mkdirSync(dirname(filePath), { recursive: true });
+    writeFileSync(filePath, contents);
+  }
+  return root;
+}
+
+const faqsModule = `export const faqs = [
+  { question: "What is automated investing?", image: "/faq-1.png" },
+  { question: "How much money do I need?", image: "/faq-2.png" },
+] as const;
+`;
+
+const faqsInput = `import { faqs } from "../content/faqs";
+
+function Faqs() {
+  return (
+    <ul>
+      {faqs.map((faq, index) => (
+        <li key={index}>
+          <img src={faq.image} />
+          <span>{faq.question}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}`;
+
+describe("Imported Content", () => {
+  afterEach(() => {
+    for (const root of projectRoots.splice(0)) {
+      rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  test("should resolve loop collections imported from another module", () => {
+    const root = createProject({ "src/content/faqs.ts": faqsModule });
+    const output = transform(faqsInput, "src/components/Faqs.jsx", {
+      importedContent: { root },
+    });
+
+    expect(output).toContain(
+      'data-children-source={["{\\"file\\":\\"src/content/faqs.ts\\",\\"start\\":\\"2:15\\",\\"end\\":\\"2:45\\"}", "{\\"file\\":\\"src/content/faqs.ts\\",\\"start\\":\\"3:15\\",\\"end\\":\\"3:42\\"}"][index]}',
+    );
+    expect(output).toContain(
+      'data-img-source={["{\\"file\\":\\"src/content/faqs.ts\\",\\"start\\":\\"2:54\\",\\"end\\":\\"2:66\\"}", "{\\"file\\":\\"src/content/faqs.ts\\",\\"start\\":\\"3:51\\",\\"end\\":\\"3:63\\"}"][index]}',
+    );
+  });
+
+  test("should resolve default imports read as variables", () => {
+    const root = createProject({
+      "src/content/site.js": `const site = { title: "Acme", url: "/home" };
+export default site;
+`,
+    });
+    const output = transform(
+      `import site from "../content/site";
+
+function Header() {
+  return <a href={site.url}>{site.title}</a>;
+}`,
+      "src/components/Header.jsx",
+      { importedContent: { root } },
+    );
+
+    expect(output).toContain(
+      `data-children-source='{"file":"src/content/site.js","start":"1:23","end":"1:29"}'`,
+    );
+    expect(output).toContain(
+      `data-prop-sources='{"href":{"file":"src/content/site.js","start":"1:36","end":"1:43"}}'`,
+    );
+  });
+
+  test("should follow re-exports, namespace imports and resolved aliases", () => {
+    const root = createProject({
+      "src/content/faqs.ts": faqsModule,
+      "src/content/site.ts": `export default { title: "Acme" };\n`,
+      "src/content/index.ts": `export * from "./faqs";
+export { default as site } from "./site";
+`,
+    });
+    const output = transform(
+      `import * as content from "@/content";
+
+function Faqs() {
+  return (
+    <section>
+      <h1>{content.site.title}</h1>
+      {content.faqs.map((faq, index) => <p key={index}>{faq.question}</p>)}
+    </section>
+  );
+}`,
+      "src/components/Faqs.jsx",
+      {
+        importedContent: {
+          root,
+          resolve: (source) => source.replace(/^@\//, "src/"),
+        },
+      },
+    );
+
+    expect(output).toMatch(
+      /<h1[^>]*data-children-source='\{"file":"src\/content\/site\.ts","start":"1:25","end":"1:31"\}'/,
+    );
+    expect(output).toMatch(
+      /<p key=\{index\}[^>]*data-children-source=\{\["\{\\"file\\":\\"src\/content\/faqs\.ts\\"/,
+    );
+  });
+
+  test("should be opt-in and pick up changes to imported modules", () => {
+    const root = createProject({ "src/content/faqs.ts": faqsModule });
+
+    const disabled = transform(faqsInput, "src/components/Faqs.jsx");
+    expect(disabled).not.toContain("data-children-source");
+
+    const before = transform(faqsInput, "src/components/Faqs.jsx", {
+      importedContent: { root },
+    });
+    expect(before).toContain('\\"start\\":\\"2:15\\"');
+
+    const faqsPath = join(root, "src/content/faqs.ts");
+    writeFileSync(faqsPath, `// FAQ content\n${faqsModule}`);
+    const later = new Date(Date.now() + 10_000);
+    utimesSync(faqsPath, later, later);
+
+    const after = transform(faqsInput, "src/components/Faqs.jsx", {
+      importedContent: { root },
+    });
+    expect(after).toContain('\\"start\\":\\"3:15\\"');
+    expect(after).not.toContain('\\"start\\":\\"2:15\\"');
+  });
+});
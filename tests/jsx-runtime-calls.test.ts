@@ -0,0 +1,114 @@
+import { describe, test, expect } from "vitest";
+import { transform, getAttributes } from "./test-helpers";
+
+// Test fixtures
+const automaticRuntimeInput = `import { jsx as _jsx, jsxs as _jsxs } from "react/jsx-runtime";
+
+function Card() {
+  return _jsxs("div", {
+    className: "card",
+    children: [_jsx("h2", { children: "Title" }), _jsx("p", { children: "Body" })],
+  });
+}`;
+
+const devRuntimeInput = `import { jsxDEV as _jsxDEV } from "react/jsx-dev-runtime";
+
+const Badge = () => _jsxDEV("span", { children: "New" }, "badge");`;
+
+const commonJsRuntimeInput = `var _jsxRuntime = require("react/jsx-runtime");
+
+function Note() {
+  return (0, _jsxRuntime.jsx)("aside", { children: "Note" });
+}`;
+
+const namedCreateElementInput = `import { createElement as h } from "react";
+
+function Link() {
+  return h("a", { href: "/home" }, "Home");
+}`;
+
+const unrelatedCallInput = `import { jsx } from "./my-own-jsx";
+
+function Widget() {
+  return jsx("div", { children: "Widget" });
+}`;
+
+const spreadPropsInput = `import { jsx as _jsx } from "react/jsx-runtime";
+
+function Card(props) {
+  return _jsx("div", { ...props, className: "card", children: "Hi" });
+}`;
+
+const compiledSpreadInput = `import { jsx as _jsx } from "react/jsx-runtime";
+
+function Card(props) {
+  return _jsx("div", _objectSpread({}, props));
+}`;
+
+const methodPropInput = `import { createElement } from "react";
+
+function Card() {
+  return createElement("div", { [name]: 1, onClick() {} }, "Hi");
+}`;
+
+describe("Automatic Runtime Calls", () => {
+  test("should annotate jsx/jsxs calls imported from react/jsx-runtime", () => {
+    const output = transform(automaticRuntimeInput, "src/Card.js");
+
+    const divAttrs = getAttributes(output, "div");
+    expect(divAttrs["data-component-file"]).toBe("src/Card.js");
+    expect(divAttrs["data-component-name"]).toBe("Card");
+    expect(output).toContain(`<h2 data-rendered-by="src/Card.js"`);
+    expect(output).toContain(`<p data-rendered-by="src/Card.js"`);
+    expect(output).toContain("Title");
+  });
+
+  test("should keep the key passed to jsxDEV", () => {
+    const output = transform(devRuntimeInput, "src/Badge.js");
+
+    expect(output).toContain(`<span key="badge"`);
+    expect(getAttributes(output, "span")["data-component-name"]).toBe("Badge");
+  });
+
+  test("should resolve runtime calls through CommonJS requires", () => {
+    const output = transform(commonJsRuntimeInput, "src/Note.js");
+
+    expect(getAttributes(output, "aside")["data-component-name"]).toBe("Note");
+  });
+
+  test("should resolve named createElement imports", () => {
+    const output = transform(namedCreateElementInput, "src/Link.js");
+
+    const linkAttrs = getAttributes(output, "a");
+    expect(linkAttrs["data-component-name"]).toBe("Link");
+    expect(output).toContain(`href="/home"`);
+  });
+
+  test("should ignore jsx functions from other modules", () => {
+    const output = transform(unrelatedCallInput, "src/Widget.js");
+
+    expect(output).not.toContain("data-component-name");
+  });
+
+  test("should keep spread props as JSX spread attributes", () => {
+    const output = transform(spreadPropsInput, "src/Card.js");
+
+    expect(output).toMatch(
+      /<div \{\.\.\.props\} className="card" data-component-file/,
+    );
+    expect(output).toContain(">Hi</div>");
+
+    const compiled = transform(compiledSpreadInput, "src/Card.js");
+    expect(compiled).toMatch(
+      /<div \{\.\.\._objectSpread\(\{\}, props\)\} data-component-file="src\/Card.js"/,
+    );
+  });
+
+  test("should annotate calls in place when props have no JSX form", () => {
+    const output = transform(methodPropInput, "src/Card.js");
+
+    expect(output).toContain('createElement("div", {\n    [name]: 1,');
+    expect(output).toContain("onClick() {}");
+    expect(output).toContain('"data-component-name": "Card"');
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, test, expect } from "vitest";
+import { transformSync } from "@babel/core";
+import { attachBridge, detachMetadata } from "../src/index";
+import { transform } from "./test-helpers";
+
+// Test fixtures
+const faqsInput = `function Faqs({ faqs }) {
+  return (
+    <section>
+      {faqs.map((faq) => (
+        <div key={faq.id}>
+          <h3>{faq.question}</h3>
+          <Answer text={faq.answer} />
+        </div>
+      ))}
+    </section>
+  );
+}`;
+
+const nestedLoopsInput = `function Menu({ groups }) {
+  return (
+    <nav>
+      {groups.map((group) => (
+        <ul key={group.id}>
+          {group.items.map((item, index) => (
+            <li>{item.label}</li>
+          ))}
+        </ul>
+      ))}
+    </nav>
+  );
+}`;
+
+describe("Loop Instances", () => {
+  test("should add the item key as the instance of each host element", () => {
+    const output = transform(faqsInput, "src/Faqs.jsx");
+
+    expect(output).toMatch(
+      /<div key=\{faq\.id\} data-editor-instance=\{faq\.id\}/,
+    );
+    expect(output).toMatch(/<h3 data-editor-instance=\{faq\.id\}/);
+    expect(output).not.toMatch(/<Answer[^>]*data-editor-instance/);
+    expect(output).not.toMatch(/<section[^>]*data-editor-instance/);
+  });
+
+  test("should fall back to the index parameter and skip literal keys", () => {
+    const indexed = transform(
+      `function List({ items }) {
+  return <ul>{items.map((item, i) => <li>{item}</li>)}</ul>;
+}`,
+      "src/List.jsx",
+    );
+    const literalKey = transform(
+      `function List({ items }) {
+  return <ul>{items.map((item) => <li key="row">{item}</li>)}</ul>;
+}`,
+      "src/List.jsx",
+    );
+
+    expect(indexed).toMatch(/<li data-editor-instance=\{i\}/);
+    expect(literalKey).not.toContain("data-editor-instance");
+  });
+
+  test("should use the index instead of repeating computed keys", () => {
+    const withIndex = transform(
+      `function List({ items }) {
+  return <ul>{items.map((item, i) => <li key={makeKey(item)}><span>{item}</span></li>)}</ul>;
+}`,
+      "src/List.jsx",
+    );
+    const withoutIndex = transform(
+      `function List({ items }) {
+  return <ul>{items.map((item) => <li key={\`row-\${item.id}\`}>{item.label}</li>)}</ul>;
+}`,
+      "src/List.jsx",
+    );
+
+    expect(withIndex.match(/makeKey\(item\)/g)).toHaveLength(1);
+    expect(withIndex).toMatch(
+      /<li key=\{makeKey\(item\)\} data-editor-instance=\{i\}/,
+    );
+    expect(withIndex).toMatch(/<span data-editor-instance=\{i\}/);
+
+    expect(withoutIndex).toContain("items.map((item, _index) =>");
+    expect(withoutIndex).toMatch(/data-editor-instance=\{_index\}/);
+  });
+
+  test("should combine instances of nested loops", () => {
+    const output = transform(nestedLoopsInput, "src/Menu.jsx");
+
+    expect(output).toMatch(
+      /<ul key=\{group\.id\} data-editor-instance=\{group\.id\}/,
+    );
+    expect(output).toContain("data-editor-instance={`${group.id}:${index}`}");
+  });
+
+  test("should pass instances to the bridge and strip them on detach", () => {
+    const annotated = transform(faqsInput, "src/Faqs.jsx");
+    const bridged =
+      transformSync(annotated, {
+        plugins: [[attachBridge, { filename: "src/Faqs.jsx" }]],
+        parserOpts: { plugins: ["jsx"] },
+      })?.code || "";
+    const detached =
+      transformSync(annotated, {
+        plugins: [[detachMetadata, { filename: "src/Faqs.jsx" }]],
+        parserOpts: { plugins: ["jsx"] },
+      })?.code || "";
+
+    expect(bridged).toMatch(
+      /<LivePreviewBridge editorId="[a-f0-9]{12}" messageType="ELEMENT_UPDATE" editorInstance=\{faq\.id\}>\s*<h3/,
+    );
+    expect(detached).not.toContain("data-editor-instance");
+  });
+});
@@ -38,6 +38,37 @@ const FAQSection = () => {
 };
 `;
 
+const nestedContentComponent = `
+const content = {
+  faqs: [
+    { question: "What is automated investing?", answer: "Automated answer." },
+    { question: "How much money do I need?", answer: "You can start today." }
+  ],
+  data: {
+    sections: [{ items: [{ label: "Fees" }, { label: "Security" }] }]
+  }
+} as const;
+
+const FAQSection = (props) => {
+  return (
+    <div>
+      {content.faqs.map((faq, index) => (
+        <p key={index}>{faq.question}</p>
+      ))}
+      {content.data.sections[0].items.map((item, index) => (
+        <span key={index}>{item.label}</span>
+      ))}
+      {props.items.map((item, index) => (
+        <em key={index}>{item.label}</em>
+      ))}
+      {content.missing.map((item, index) => (
+        <b key={index}>{item.label}</b>
+      ))}
+    </div>
+  );
+};
+`;
+
 describe("Loop metadata generation", () => {
   test("adds dynamic IDs and data source metadata for static in-file collections", () => {
     const output = transform(faqsComponent, "Example-static.jsx");
@@ -63,4 +94,22 @@ describe("Loop metadata generation", () => {
     expect(output).not.toContain("data-children-source=");
     expect(output).not.toContain("data-img-source=");
   });
+
+  test("resolves member expression collections through object literals", () => {
+    const output = transform(nestedContentComponent, "Example-nested.tsx");
+
+    expect(output).toMatch(
+      /<p key=\{index\}[^>]*data-children-source=\{\["\{\\"file\\":\\"Example-nested\.tsx\\",\\"start\\":\\"4:17\\",\\"end\\":\\"4:47\\"\}", "\{\\"file\\":\\"Example-nested\.tsx\\",\\"start\\":\\"5:17\\",\\"end\\":\\"5:44\\"\}"\]\[index\]\}/,
+    );
+    expect(output).toMatch(
+      /<span key=\{index\}[^>]*data-children-source=\{\["\{\\"file\\":\\"Example-nested\.tsx\\",\\"start\\":\\"8:35\\",\\"end\\":\\"8:41\\"\}", "\{\\"file\\":\\"Example-nested\.tsx\\",\\"start\\":\\"8:54\\",\\"end\\":\\"8:64\\"\}"\]\[index\]\}/,
+    );
+  });
+
+  test("skips member expression collections that do not resolve to an array", () => {
+    const output = transform(nestedContentComponent, "Example-nested.tsx");
+
+    expect(output).not.toMatch(/<em[^>]*data-children-source=/);
+    expect(output).not.toMatch(/<b[^>]*data-children-source=/);
+  });
 });
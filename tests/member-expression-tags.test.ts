@@ -0,0 +1,108 @@
+import { describe, test, expect } from "vitest";
+import { transformSync } from "@babel/core";
+import { extractDataEditorIds, transform, getAttributes } from "./test-helpers";
+import { attachBridge } from "../src/index";
+
+// Test fixtures
+const compoundComponentInput = `function Settings() {
+  return (
+    <div>
+      <Tabs.Panel>
+        <p>General</p>
+      </Tabs.Panel>
+      <UI.Button>Save</UI.Button>
+    </div>
+  );
+}`;
+
+const motionInput = `function Hero() {
+  return (
+    <section>
+      <motion.div animate={{ opacity: 1 }}>
+        <h1>Hello</h1>
+      </motion.div>
+    </section>
+  );
+}`;
+
+const namespacedInput = `function Icon() {
+  return (
+    <svg>
+      <svg:rect width="10" height="10" />
+    </svg>
+  );
+}`;
+
+function parentTagIds(parentTag: string): string[] {
+  return extractDataEditorIds(
+    transform(
+      `function Settings() {
+        return (
+          <div>
+            <${parentTag}>
+              <p>General</p>
+            </${parentTag}>
+          </div>
+        );
+      }`,
+      "src/Settings.jsx",
+    ),
+  );
+}
+
+describe("Member Expression and Namespaced Tags", () => {
+  test("should treat compound components as components", () => {
+    const output = transform(compoundComponentInput, "src/Settings.jsx");
+
+    expect(output).not.toContain("<Tabs.Panel data-rendered-by");
+    expect(output).not.toContain("<UI.Button data-rendered-by");
+    expect(output).toContain(`<p data-rendered-by="src/Settings.jsx"`);
+
+    // Text passed to a compound component is wrapped like any component child
+    expect(output).toContain(`<span data-rendered-by="src/Settings.jsx"`);
+  });
+
+  test("should use full dotted names in element ID paths", () => {
+    const panelIds = parentTagIds("Tabs.Panel");
+    const listIds = parentTagIds("Tabs.List");
+
+    expect(panelIds).toHaveLength(2);
+    expect(panelIds[0]).toBe(listIds[0]);
+    expect(panelIds[1]).not.toBe(listIds[1]);
+  });
+
+  test("should treat motion proxies and namespaced tags as host elements", () => {
+    const motionOutput = transform(motionInput, "src/Hero.jsx");
+    expect(getAttributes(motionOutput, "motion.div")["data-rendered-by"]).toBe(
+      "src/Hero.jsx",
+    );
+
+    const svgOutput = transform(namespacedInput, "src/Icon.jsx");
+    expect(getAttributes(svgOutput, "svg:rect")["data-rendered-by"]).toBe(
+      "src/Icon.jsx",
+    );
+  });
+
+  test("should allow configuring host element proxies", () => {
+    const output = transform(motionInput, "src/Hero.jsx", {
+      hostElementProxies: [],
+    });
+
+    expect(getAttributes(output, "motion.div")["data-rendered-by"]).toBeUndefined();
+  });
+
+  test("should wrap host member elements with the live preview bridge", () => {
+    const result = transformSync(
+      `<motion.div data-editor-id="abc123">Hi</motion.div>;
+       <Tabs.Panel data-editor-id="def456">Tab</Tabs.Panel>;`,
+      {
+        plugins: [[attachBridge, { filename: "src/Hero.jsx" }]],
+        parserOpts: { plugins: ["jsx"] },
+      },
+    );
+    const output = result?.code || "";
+
+    expect(output).toContain(`<LivePreviewBridge editorId="abc123"`);
+    expect(output).not.toContain(`<LivePreviewBridge editorId="def456"`);
+  });
+});
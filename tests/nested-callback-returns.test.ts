@@ -0,0 +1,93 @@
+import { describe, test, expect } from "vitest";
+import { transform, getAttributes } from "./test-helpers";
+
+// Test fixtures
+const mapCallbackInput = `function UserList({ users }) {
+  return (
+    <ul>
+      {users.map((user) => {
+        return <li key={user.id}>{user.name}</li>;
+      })}
+    </ul>
+  );
+}`;
+
+const memoCallbackInput = `function Table({ rows }) {
+  const body = useMemo(() => {
+    return <tbody><tr><td>Row</td></tr></tbody>;
+  }, [rows]);
+
+  return <table>{body}</table>;
+}`;
+
+const renderPropInput = `function Page() {
+  return (
+    <Layout renderHeader={() => <header>Header</header>}>
+      <main>Content</main>
+    </Layout>
+  );
+}`;
+
+const eventHandlerInput = `function Toolbar({ onSave }) {
+  const onClick = () => {
+    return <b>Saved</b>;
+  };
+  function renderHint() {
+    return <em>Hint</em>;
+  }
+  const Badge = () => <span>New</span>;
+
+  return <div onClick={onClick}>{renderHint()}<Badge /></div>;
+}`;
+
+describe("Nested Callback Returns", () => {
+  test("should not treat JSX returned from .map callbacks as component roots", () => {
+    const output = transform(mapCallbackInput, "src/UserList.jsx");
+
+    expect(getAttributes(output, "ul")["data-component-name"]).toBe(
+      "UserList",
+    );
+
+    const liAttrs = getAttributes(output, "li");
+    expect(liAttrs["data-component-name"]).toBeUndefined();
+    expect(liAttrs["data-rendered-by"]).toBe("src/UserList.jsx");
+    expect(liAttrs["data-editor-id"]).toMatch(/^[a-f0-9]{12}$/);
+  });
+
+  test("should treat JSX from hook callbacks as owned children", () => {
+    const output = transform(memoCallbackInput, "src/Table.jsx");
+
+    expect(getAttributes(output, "table")["data-component-name"]).toBe(
+      "Table",
+    );
+    expect(getAttributes(output, "tbody")["data-component-name"]).toBeUndefined();
+    expect(output).toContain(`<tbody data-rendered-by="src/Table.jsx"`);
+    expect(output).toContain(`<tr data-rendered-by="src/Table.jsx"`);
+    expect(output).toContain(`<td data-rendered-by="src/Table.jsx"`);
+  });
+
+  test("should annotate JSX from render props without marking it as root", () => {
+    const output = transform(renderPropInput, "src/Page.jsx");
+
+    expect(getAttributes(output, "header")["data-rendered-by"]).toBe(
+      "src/Page.jsx",
+    );
+    expect(output.match(/data-component-name=/g)).toHaveLength(1);
+  });
+
+  test("should treat JSX from named handlers as rendered by the component", () => {
+    const output = transform(eventHandlerInput, "src/Toolbar.jsx");
+
+    for (const tagName of ["b", "em"]) {
+      const attrs = getAttributes(output, tagName);
+      expect(attrs["data-component-name"]).toBeUndefined();
+      expect(attrs["data-rendered-by"]).toBe("src/Toolbar.jsx");
+      expect(attrs["data-editor-id"]).toMatch(/^[a-f0-9]{12}$/);
+    }
+
+    // PascalCase declarations are still components of their own
+    expect(getAttributes(output, "span")["data-component-name"]).toBe(
+      "Badge",
+    );
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, test, expect } from "vitest";
+import { transform } from "./test-helpers";
+
+function getPropSources(output: string, tagName: string) {
+  const match = output.match(
+    new RegExp(`<${tagName}[^>]*data-prop-sources='([^']*)'`),
+  );
+  return match ? JSON.parse(match[1]) : null;
+}
+
+describe("Prop Sources", () => {
+  test("should locate inline string literal props", () => {
+    const output = transform(
+      `function Nav({ onClick, label }) {
+  return (
+    <a href="/about" title={"About us"} className={\`link\`} aria-label={label} onClick={onClick}>
+      About
+    </a>
+  );
+}`,
+      "src/Nav.jsx",
+    );
+
+    expect(getPropSources(output, "a")).toEqual({
+      href: { file: "src/Nav.jsx", start: "3:13", end: "3:21" },
+      title: { file: "src/Nav.jsx", start: "3:29", end: "3:39" },
+      className: { file: "src/Nav.jsx", start: "3:52", end: "3:58" },
+    });
+  });
+
+  test("should resolve props read from variables", () => {
+    const output = transform(
+      `function Nav() {
+  const link = { url: "/home", label: "Home" };
+  const hint = "Search the site";
+  return (
+    <nav>
+      <a href={link.url} aria-label={link.label}>Home</a>
+      <input placeholder={hint} />
+    </nav>
+  );
+}`,
+      "src/Nav.jsx",
+    );
+
+    expect(getPropSources(output, "a")).toEqual({
+      href: { file: "src/Nav.jsx", start: "2:23", end: "2:30" },
+      "aria-label": { file: "src/Nav.jsx", start: "2:39", end: "2:45" },
+    });
+    expect(getPropSources(output, "input")).toEqual({
+      placeholder: { file: "src/Nav.jsx", start: "3:16", end: "3:33" },
+    });
+    expect(getPropSources(output, "nav")).toBeNull();
+  });
+
+  test("should pick per-item locations for loop items", () => {
+    const output = transform(
+      `function Gallery() {
+  const photos = [
+    { url: "/a.jpg", alt: "First" },
+    { url: "/b.jpg", alt: "Second" },
+  ];
+  return (
+    <div>
+      {photos.map((photo, index) => (
+        <img key={index} src={photo.url} alt={photo.alt} className="thumb" />
+      ))}
+    </div>
+  );
+}`,
+      "src/Gallery.jsx",
+    );
+
+    const match = output.match(/data-prop-sources=\{\[("[^\]]*)\]\[index\]\}/);
+    expect(match).not.toBeNull();
+
+    const items = JSON.parse(`[${match?.[1]}]`).map((item: string) =>
+      JSON.parse(item),
+    );
+    expect(items).toEqual([
+      {
+        src: { file: "src/Gallery.jsx", start: "3:12", end: "3:20" },
+        alt: { file: "src/Gallery.jsx", start: "3:27", end: "3:34" },
+        className: { file: "src/Gallery.jsx", start: "9:68", end: "9:75" },
+      },
+      {
+        src: { file: "src/Gallery.jsx", start: "4:12", end: "4:20" },
+        alt: { file: "src/Gallery.jsx", start: "4:27", end: "4:35" },
+        className: { file: "src/Gallery.jsx", start: "9:68", end: "9:75" },
+      },
+    ]);
+  });
+
+  test("should only map allowlisted props", () => {
+    const input = `function Search() {
+  return <input placeholder="Search" title="Search box" />;
+}`;
+
+    const output = transform(input, "src/Search.jsx", {
+      sourceProps: ["placeholder"],
+    });
+    expect(getPropSources(output, "input")).toEqual({
+      placeholder: { file: "src/Search.jsx", start: "2:29", end: "2:37" },
+    });
+
+    const disabled = transform(input, "src/Search.jsx", { sourceProps: [] });
+    expect(disabled).not.toContain("data-prop-sources");
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, test, expect } from "vitest";
+import { transform } from "./test-helpers";
+
+// Test fixtures
+const pageInput = `function Page() {
+  return (
+    <main>
+      <section className="intro">
+        <h1 className="title">Welcome</h1>
+        <p className="lead">Lead</p>
+      </section>
+      <section className="details">
+        <p className="body">Body</p>
+      </section>
+    </main>
+  );
+}`;
+
+const listInput = `function Menu() {
+  return (
+    <ul>
+      <li key="home" className="home">Home</li>
+      <li key="about" className="about">About</li>
+      <li className="extra">Extra</li>
+    </ul>
+  );
+}`;
+
+function getIdByClassName(output: string, className: string): string {
+  const match = output.match(
+    new RegExp(`className="${className}"[^>]*data-editor-id="([^"]+)"`),
+  );
+  return match?.[1] ?? "";
+}
+
+function transformStructural(code: string) {
+  return transform(code, "src/Page.jsx", { idStrategy: "structural" });
+}
+
+describe("Structural Editor IDs", () => {
+  test("should keep IDs when an element is inserted before them", () => {
+    const before = transformStructural(pageInput);
+    const after = transformStructural(
+      pageInput.replace("<main>", '<main>\n      <header className="top" />'),
+    );
+
+    for (const className of ["intro", "title", "lead", "details", "body"]) {
+      expect(getIdByClassName(after, className)).toBe(
+        getIdByClassName(before, className),
+      );
+    }
+  });
+
+  test("should change sequential IDs for the same edit", () => {
+    const before = transform(pageInput, "src/Page.jsx");
+    const after = transform(
+      pageInput.replace("<main>", '<main>\n      <header className="top" />'),
+      "src/Page.jsx",
+    );
+
+    expect(getIdByClassName(after, "body")).not.toBe(
+      getIdByClassName(before, "body"),
+    );
+  });
+
+  test("should keep IDs when a differently tagged sibling is inserted", () => {
+    const before = transformStructural(pageInput);
+    const after = transformStructural(
+      pageInput.replace(
+        '<h1 className="title">',
+        '<img className="logo" src="/logo.png" />\n        <h1 className="title">',
+      ),
+    );
+
+    expect(getIdByClassName(after, "title")).toBe(
+      getIdByClassName(before, "title"),
+    );
+    expect(getIdByClassName(after, "lead")).toBe(
+      getIdByClassName(before, "lead"),
+    );
+  });
+
+  test("should identify keyed siblings by key across reorders", () => {
+    const before = transformStructural(listInput);
+    const reordered = listInput.replace(
+      /(<li key="home"[^\n]*\n)(\s*<li key="about"[^\n]*\n)/,
+      "$2$1",
+    );
+    const after = transformStructural(reordered);
+
+    expect(after.indexOf('className="about"')).toBeLessThan(
+      after.indexOf('className="home"'),
+    );
+    for (const className of ["home", "about", "extra"]) {
+      expect(getIdByClassName(after, className)).toBe(
+        getIdByClassName(before, className),
+      );
+    }
+  });
+
+  test("should keep generated IDs unique within a component", () => {
+    const output = transformStructural(`function Grid() {
+  return (
+    <div>
+      <span key="a">A</span>
+      <span key="a">Duplicate key</span>
+    </div>
+  );
+}`);
+
+    const ids = [...output.matchAll(/data-editor-id="([^"]+)"/g)].map(
+      (match) => match[1],
+    );
+    expect(ids).toHaveLength(3);
+    expect(new Set(ids).size).toBe(3);
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, test, expect } from "vitest";
+import { transform } from "./test-helpers";
+
+function getTextSource(output: string, tagName: string) {
+  const match = output.match(
+    new RegExp(`<${tagName}[^>]*data-text-source='([^']*)'`),
+  );
+  return match ? JSON.parse(match[1]) : null;
+}
+
+describe("Text Source Locations", () => {
+  test("should locate literal text on host elements", () => {
+    const output = transform(
+      `function Hero() {
+  return (
+    <section>
+      <h1>Welcome to our site</h1>
+    </section>
+  );
+}`,
+      "src/Hero.jsx",
+    );
+
+    expect(getTextSource(output, "h1")).toEqual([
+      { file: "src/Hero.jsx", start: "4:11", end: "4:30" },
+    ]);
+    expect(getTextSource(output, "section")).toBeNull();
+  });
+
+  test("should trim whitespace around multi-line text", () => {
+    const output = transform(
+      `function Hero() {
+  return (
+    <p>
+      Build faster
+      with less code
+    </p>
+  );
+}`,
+      "src/Hero.jsx",
+    );
+
+    expect(getTextSource(output, "p")).toEqual([
+      { file: "src/Hero.jsx", start: "4:7", end: "5:21" },
+    ]);
+  });
+
+  test("should locate each text run interleaved with expressions", () => {
+    const output = transform(
+      `function Greeting({ name, count }) {
+  return (
+    <p>Hello {name}, you have <b>{count}</b> new messages</p>
+  );
+}`,
+      "src/Greeting.jsx",
+    );
+
+    expect(getTextSource(output, "p")).toEqual([
+      { file: "src/Greeting.jsx", start: "3:8", end: "3:13" },
+      { file: "src/Greeting.jsx", start: "3:20", end: "3:30" },
+      { file: "src/Greeting.jsx", start: "3:46", end: "3:58" },
+    ]);
+    expect(getTextSource(output, "b")).toBeNull();
+  });
+
+  test("should locate text wrapped for nested components", () => {
+    const output = transform(
+      `function Hero() {
+  return (
+    <section>
+      <Button>Get Started</Button>
+    </section>
+  );
+}`,
+      "src/Hero.jsx",
+    );
+
+    expect(getTextSource(output, "span")).toEqual([
+      { file: "src/Hero.jsx", start: "4:15", end: "4:26" },
+    ]);
+  });
+});
@@ -0,0 +1,129 @@
+import { parseSync } from "@babel/core";
+import { describe, test, expect } from "vitest";
+import { transform } from "./test-helpers";
+
+// Annotated output has to stay valid JSX for the next build step
+function expectParses(output: string) {
+  expect(() =>
+    parseSync(output, {
+      babelrc: false,
+      configFile: false,
+      parserOpts: { plugins: ["jsx"] },
+    }),
+  ).not.toThrow();
+}
+
+// Test fixtures
+const heroInput = `function Hero({ title }) {
+  return (
+    <section>
+      <Button variant="primary">Get Started</Button>
+      <Heading>{title}</Heading>
+    </section>
+  );
+}`;
+
+const factoryInput = `import React from "react";
+
+function Hero() {
+  return React.createElement(
+    "section",
+    null,
+    React.createElement(Button, null, "Get Started"),
+  );
+}`;
+
+describe("Text Wrapping Strategies", () => {
+  test("should wrap text in a display: contents span", () => {
+    const output = transform(heroInput, "src/Hero.jsx", {
+      textWrapping: "contents",
+    });
+
+    expect(output).toMatch(
+      /<Button variant="primary"><span style=\{\{\s*display: "contents"\s*\}\} data-rendered-by="src\/Hero.jsx" data-editor-id="[a-f0-9]{12}" data-text-source='[^']*'>Get Started<\/span><\/Button>/,
+    );
+    expect(output).toMatch(
+      /<Heading><span style=\{\{\s*display: "contents"\s*\}\} data-rendered-by="src\/Hero.jsx" data-editor-id="[a-f0-9]{12}">\{title\}<\/span><\/Heading>/,
+    );
+    expectParses(output);
+  });
+
+  test("should wrap text in an imported TextMarker", () => {
+    const output = transform(heroInput, "src/Hero.jsx", {
+      textWrapping: "marker",
+      textMarkerPath: "@/editor/TextMarker",
+    });
+
+    expect(output).toMatch(/^import _TextMarker from "@\/editor\/TextMarker";/);
+    expect(output).toMatch(
+      /<_TextMarker data-rendered-by="src\/Hero.jsx" data-editor-id="[a-f0-9]{12}" data-text-source='[^']*'>Get Started<\/_TextMarker>/,
+    );
+    expect(output).not.toContain("<span");
+    expectParses(output);
+
+    expect(() =>
+      transform(heroInput, "src/Hero.jsx", { textWrapping: "marker" }),
+    ).toThrow('textWrapping: "marker" requires the textMarkerPath option');
+  });
+
+  test("should not let the TextMarker import shadow a binding of the file", () => {
+    const output = transform(
+      `import TextMarker from "./TextMarker";
+
+function Hero() {
+  return (
+    <section>
+      <TextMarker />
+      <Button>Get Started</Button>
+    </section>
+  );
+}`,
+      "src/Hero.jsx",
+      {
+        textWrapping: "marker",
+        textMarkerPath: "@/editor/TextMarker",
+      },
+    );
+
+    expect(output).toContain('import _TextMarker from "@/editor/TextMarker";');
+    expect(output).toContain('import TextMarker from "./TextMarker";');
+    expect(output).toContain("<TextMarker />");
+    expect(output).toMatch(
+      /<Button>\s*<_TextMarker [^>]*>Get Started<\/_TextMarker>\s*<\/Button>/,
+    );
+    expectParses(output);
+  });
+
+  test("should record text sources on the nearest host element", () => {
+    const output = transform(heroInput, "src/Hero.jsx", {
+      textWrapping: "none",
+    });
+
+    expect(output).toContain('<Button variant="primary">Get Started</Button>');
+    expect(output).toContain("<Heading>{title}</Heading>");
+
+    expect(output).toContain(
+      `data-text-sources='[{"file":"src/Hero.jsx","start":"4:33","end":"4:44"},{"file":"src/Hero.jsx","start":"5:16","end":"5:23"}]'`,
+    );
+    expectParses(output);
+  });
+
+  test("should apply the strategy to createElement children", () => {
+    const contents = transform(factoryInput, "src/HeroFactory.jsx", {
+      elementFactoryCalls: "annotate",
+      textWrapping: "contents",
+    });
+    expect(contents).toMatch(
+      /React\.createElement\("span", \{\s*style: \{\s*display: "contents"\s*\},\s*"data-rendered-by": "src\/HeroFactory.jsx"/,
+    );
+
+    const none = transform(factoryInput, "src/HeroFactory.jsx", {
+      elementFactoryCalls: "annotate",
+      textWrapping: "none",
+    });
+    expect(none).toContain('React.createElement(Button, null, "Get Started")');
+    expect(none).toContain(
+      '"data-text-sources": "[{\\"file\\":\\"src/HeroFactory.jsx\\",\\"start\\":\\"7:39\\",\\"end\\":\\"7:52\\"}]"',
+    );
+  });
+});
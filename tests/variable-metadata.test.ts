@@ -1,3 +1,4 @@
+import { parseSync } from "@babel/core";
 import { describe, expect, test } from "vitest";
 import { transform } from "./test-helpers";
 
@@ -49,11 +50,16 @@ describe("Variable metadata generation", () => {
     const output = transform(staticContentComponent, "Example-variable.jsx");
 
     expect(output).toMatch(
-      /data-children-source="\{\\"file\\":\\"Example-variable\.jsx\\"/,
-    );
-    expect(output).toMatch(
-      /data-img-source="\{\\"file\\":\\"Example-variable\.jsx\\"/,
+      /data-children-source='\{"file":"Example-variable\.jsx"/,
     );
+    expect(output).toMatch(/data-img-source='\{"file":"Example-variable\.jsx"/);
+    expect(() =>
+      parseSync(output, {
+        babelrc: false,
+        configFile: false,
+        parserOpts: { plugins: ["jsx"] },
+      }),
+    ).not.toThrow();
   });
 
   test("skips variable metadata when source is dynamic", () => {
@@ -70,7 +76,7 @@ describe("Variable metadata generation", () => {
     const output = transform(simpleVarComponent, "Example-simple.jsx");
 
     expect(output).toMatch(
-      /data-children-source="\{\\"file\\":\\"Example-simple\.jsx\\"/,
+      /data-children-source='\{"file":"Example-simple\.jsx"/,
     );
   });
 });